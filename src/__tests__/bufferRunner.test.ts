@@ -0,0 +1,113 @@
+/*
+ * Jest tests for running unsaved buffers and sending code to the REPL.
+ */
+
+let mockSettings: Record<string, any> = {};
+
+jest.mock('vscode', () => ({
+  workspace: {
+    getWorkspaceFolder: () => undefined,
+    getConfiguration: () => ({
+      get: (key: string, defaultValue?: any) => (key in mockSettings ? mockSettings[key] : defaultValue),
+    }),
+  },
+}), { virtual: true });
+
+import * as os from 'os';
+import * as path from 'path';
+import {
+  BUFFER_LINK,
+  createOutputMapper,
+  getBufferDisplayName,
+  getTempFilePath,
+  isUnsavedBufferCopy,
+  mapTempFileOutput,
+  runUnsavedBuffer,
+} from '../utils/bufferRunner';
+import { getTextToSend } from '../utils/jacRepl';
+
+const untitled: any = { isUntitled: true, uri: { path: 'Untitled-1', fsPath: 'Untitled-1' } };
+const edited: any = { isUntitled: false, uri: { path: '/ws/app/main.jac', fsPath: '/ws/app/main.jac' } };
+
+describe('bufferRunner', () => {
+  afterEach(() => {
+    mockSettings = {};
+  });
+
+  test('writes untitled buffers to the temp directory and edited files beside themselves', () => {
+    expect(path.dirname(getTempFilePath(untitled))).toBe(path.join(os.tmpdir(), 'jac-buffers'));
+    expect(path.basename(getTempFilePath(untitled))).toMatch(new RegExp(`^Untitled-1-${process.pid}-\\d+\\.jac$`));
+    expect(path.dirname(getTempFilePath(edited))).toBe('/ws/app');
+    expect(isUnsavedBufferCopy(getTempFilePath(edited))).toBe(true);
+    expect(isUnsavedBufferCopy('/ws/app/main.jac')).toBe(false);
+  });
+
+  test('gives every run of a buffer its own file', () => {
+    expect(getTempFilePath(edited)).not.toBe(getTempFilePath(edited));
+  });
+
+  test('maps paths split across output chunks', () => {
+    jest.useFakeTimers();
+    try {
+      const tempPath = getTempFilePath(untitled);
+      const written: string[] = [];
+      const mapper = createOutputMapper(tempPath, 'Untitled-1', text => written.push(text));
+      const line = `  File "${tempPath}", line 3\n`;
+
+      mapper.push(line.slice(0, 12));
+      mapper.push(line.slice(12) + 'Name: ');
+      expect(written).toEqual(['  File "Untitled-1", line 3\n']);
+
+      jest.advanceTimersByTime(100);
+      expect(written).toEqual(['  File "Untitled-1", line 3\n', 'Name: ']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('points output at the buffer instead of the temporary file', () => {
+    const tempPath = getTempFilePath(untitled);
+    const output = [
+      'Traceback (most recent call last):',
+      `  File "${tempPath}", line 3, in <module>`,
+      `Error: ${tempPath}, line 5, col 1: Missing semicolon`,
+    ].join('\n');
+
+    expect(mapTempFileOutput(output, tempPath, getBufferDisplayName(untitled))).toBe([
+      'Traceback (most recent call last):',
+      '  File "Untitled-1", line 3, in <module>',
+      'Error: Untitled-1, line 5, col 1: Missing semicolon',
+    ].join('\n'));
+    expect(getBufferDisplayName(edited)).toBe('/ws/app/main.jac');
+  });
+
+  test('finds buffer references with and without a drive letter', () => {
+    expect(BUFFER_LINK.exec('File "C:\\proj\\main.jac", line 12')!.slice(1)).toEqual(['C:\\proj\\main.jac', '12']);
+    expect(BUFFER_LINK.exec('C:\\proj\\main.jac:3:5')!.slice(1)).toEqual(['C:\\proj\\main.jac', '3']);
+    expect(BUFFER_LINK.exec('Error in Untitled-1:7')!.slice(1)).toEqual(['Untitled-1', '7']);
+  });
+
+  test('refuses untitled buffers a command template cannot reach', async () => {
+    const folder: any = { name: 'app', uri: { fsPath: '/ws/app' } };
+    const envManager: any = { resolveFolder: () => folder };
+    const document: any = { ...untitled, getText: () => 'with entry { print("hi"); }' };
+    mockSettings = {
+      commandTemplate: 'docker exec -i box jac',
+      pathMappings: [{ localRoot: '${workspaceFolder}', remoteRoot: '/workspace' }],
+    };
+
+    await expect(runUnsavedBuffer(document, 'run', envManager)).rejects.toThrow('jaclang-extension.pathMappings maps');
+  });
+});
+
+describe('jacRepl', () => {
+  const document: any = {
+    lineAt: (line: number) => ({ text: ['x = 1;', 'print(x);'][line] }),
+    getText: () => 'x = 1;\nprint(x);',
+  };
+
+  test('sends the selection, or the current line when nothing is selected', () => {
+    expect(getTextToSend(document, { isEmpty: false } as any)).toBe('x = 1;\nprint(x);\n');
+    expect(getTextToSend(document, { isEmpty: true, active: { line: 1 } } as any)).toBe('print(x);\n');
+  });
+});
@@ -0,0 +1,85 @@
+/*
+ * Jest tests for running Jac through a command template with host/remote path mappings.
+ */
+
+let settings: Record<string, any> = {};
+
+jest.mock('vscode', () => ({
+  workspace: {
+    getConfiguration: () => ({
+      get: (key: string, defaultValue?: any) => (key in settings ? settings[key] : defaultValue),
+    }),
+  },
+}), { virtual: true });
+
+import {
+  buildJacInvocation,
+  splitCommandLine,
+  toLocalPath,
+  toRemotePath,
+  toShellCommand,
+} from '../utils/commandWrapper';
+
+describe('commandWrapper', () => {
+  const folder: any = { name: 'service', index: 0, uri: { fsPath: '/home/dev/service' } };
+
+  beforeEach(() => {
+    settings = {};
+  });
+
+  test('splits templates honouring quotes', () => {
+    expect(splitCommandLine('docker exec -i mybox jac')).toEqual(['docker', 'exec', '-i', 'mybox', 'jac']);
+    expect(splitCommandLine(`ssh "dev box" 'jac lsp' "say \\"hi\\""`)).toEqual(['ssh', 'dev box', 'jac lsp', 'say "hi"']);
+    expect(splitCommandLine('  ')).toEqual([]);
+  });
+
+  test('keeps backslashes outside double quotes, as in Windows paths', () => {
+    expect(splitCommandLine('C:\\tools\\jac.exe run')).toEqual(['C:\\tools\\jac.exe', 'run']);
+    expect(splitCommandLine(`'C:\\my tools\\jac.exe' a\\ b`)).toEqual(['C:\\my tools\\jac.exe', 'a\\', 'b']);
+  });
+
+  test('translates paths in both directions using the first matching mapping', () => {
+    const mappings = [
+      { localRoot: '/home/dev/service/', remoteRoot: '/workspace' },
+      { localRoot: '/home/dev', remoteRoot: '/mnt/home' },
+    ];
+
+    expect(toRemotePath('/home/dev/service/src/app.jac', mappings)).toBe('/workspace/src/app.jac');
+    expect(toRemotePath('/home/dev/other/app.jac', mappings)).toBe('/mnt/home/other/app.jac');
+    expect(toRemotePath('/home/developer/app.jac', mappings)).toBe('/home/developer/app.jac');
+    expect(toLocalPath('/workspace/src/app.jac', mappings)).toBe('/home/dev/service/src/app.jac');
+    expect(toLocalPath('/usr/lib/python3/site.py', mappings)).toBe('/usr/lib/python3/site.py');
+  });
+
+  test('runs jac directly when no template is configured', () => {
+    expect(buildJacInvocation('/venv/bin/jac', ['run', '/home/dev/service/app.jac'], folder))
+      .toEqual({ command: '/venv/bin/jac', args: ['run', '/home/dev/service/app.jac'] });
+  });
+
+  test('wraps the command and maps host paths through the template', () => {
+    settings = {
+      commandTemplate: 'docker exec -i ${workspaceFolderBasename}-dev jac',
+      pathMappings: [{ localRoot: '${workspaceFolder}', remoteRoot: '/workspace' }],
+    };
+
+    const invocation = buildJacInvocation('/venv/bin/jac', ['run', '/home/dev/service/app.jac', '--flag'], folder);
+
+    expect(invocation).toEqual({
+      command: 'docker',
+      args: ['exec', '-i', 'service-dev', 'jac', 'run', '/workspace/app.jac', '--flag'],
+    });
+    expect(toShellCommand(invocation)).toBe('docker exec -i service-dev jac run /workspace/app.jac --flag');
+  });
+
+  test('inserts the selected executable for ${jacPath}', () => {
+    settings = { commandTemplate: 'wsl -e ${jacPath}' };
+
+    expect(buildJacInvocation('/home/dev/.venv/bin/jac', ['lsp'], folder))
+      .toEqual({ command: 'wsl', args: ['-e', '/home/dev/.venv/bin/jac', 'lsp'] });
+  });
+
+  test('quotes arguments with spaces for the terminal', () => {
+    expect(toShellCommand({ command: 'jac', args: ['run', '/my files/app.jac'] }))
+      .toBe('jac run "/my files/app.jac"');
+  });
+});
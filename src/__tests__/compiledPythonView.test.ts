@@ -0,0 +1,63 @@
+/*
+ * Jest tests for mapping Jac lines to the Python compiled from them.
+ */
+
+jest.mock('vscode', () => ({}), { virtual: true });
+
+import { buildLineAnchors, toPythonLine } from '../views/compiledPythonView';
+
+const jac = [
+  'obj Point {',          // 0
+  '    has x: int;',      // 1
+  '',                     // 2
+  '    def norm -> float {', // 3
+  '        return abs(self.x);', // 4
+  '    }',                // 5
+  '}',                    // 6
+  '',                     // 7
+  'walker Visitor {',     // 8
+  '    can visit with entry {', // 9
+  '        print("hi");',  // 10
+  '    }',                // 11
+  '}',                    // 12
+].join('\n');
+
+const python = [
+  'from __future__ import annotations', // 0
+  'from jaclang.lib import Obj, Walker', // 1
+  '',                                    // 2
+  'class Point(Obj):',                   // 3
+  '    x: int',                          // 4
+  '',                                    // 5
+  '    def norm(self) -> float:',        // 6
+  '        return abs(self.x)',          // 7
+  '',                                    // 8
+  'class Visitor(Walker):',              // 9
+  '',                                    // 10
+  '    @on_entry',                       // 11
+  '    def visit(self, here) -> None:',  // 12
+  '        print("hi")',                 // 13
+].join('\n');
+
+describe('compiledPythonView', () => {
+  test('pairs Jac declarations with the generated definitions', () => {
+    expect(buildLineAnchors(jac, python)).toEqual([
+      { jacLine: 0, pythonLine: 3 },
+      { jacLine: 3, pythonLine: 6 },
+      { jacLine: 8, pythonLine: 9 },
+      { jacLine: 9, pythonLine: 12 },
+    ]);
+  });
+
+  test('maps lines inside a declaration without passing the next one', () => {
+    const anchors = buildLineAnchors(jac, python);
+    expect(toPythonLine(anchors, 1)).toBe(4);
+    expect(toPythonLine(anchors, 4)).toBe(7);
+    expect(toPythonLine(anchors, 7)).toBe(8);
+    expect(toPythonLine(anchors, 10)).toBe(13);
+  });
+
+  test('has no position before the first declaration', () => {
+    expect(toPythonLine(buildLineAnchors('import os;\nobj A {}', 'import os\nclass A:\n    pass'), 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+/*
+ * Jest tests for reading the AST and symbol table printouts of the Jac toolchain.
+ */
+
+jest.mock('vscode', () => ({
+  TreeItem: class {},
+  TreeItemCollapsibleState: { None: 0, Collapsed: 1, Expanded: 2 },
+}), { virtual: true });
+
+import { parseIrTree } from '../views/compilerInspector';
+
+describe('compilerInspector', () => {
+  test('rebuilds the AST from its printed branches', () => {
+    const output = [
+      '+-- Module - main.jac, 1:1 - 4:2',
+      '    +-- Archetype - Point, 1:1 - 3:2',
+      '    |   +-- Name - Point, 1:5 - 1:10',
+      '    |   +-- ArchHas - x, 2:5 - 2:16',
+      '    +-- GlobalVars - origin, 4:1 - 4:20',
+    ].join('\n');
+
+    const [module] = parseIrTree(output);
+    expect(module.label).toBe('Module - main.jac, 1:1 - 4:2');
+    expect(module.children.map(child => child.label)).toEqual(['Archetype - Point, 1:1 - 3:2', 'GlobalVars - origin, 4:1 - 4:20']);
+    expect(module.children[0].children).toHaveLength(2);
+    expect(module.children[0].children[1].range).toEqual({ startLine: 2, startCol: 5, endLine: 2, endCol: 16 });
+  });
+
+  test('keeps headers without a branch at the top level', () => {
+    const output = [
+      'SymTable::main',
+      '+-- Point: Archetype, line 1, col 5',
+      '+-- origin: Point, line 4, col 5',
+      'SymTable::Point',
+      '+-- x: int, line 2, col 9',
+    ].join('\n');
+
+    const roots = parseIrTree(output);
+    expect(roots.map(root => root.label)).toEqual(['SymTable::main', 'SymTable::Point']);
+    expect(roots[0].children).toHaveLength(2);
+    expect(roots[1].children[0].range).toEqual({ startLine: 2, startCol: 9, endLine: 2, endCol: 9 });
+  });
+
+  test('reads box-drawing branches', () => {
+    const roots = parseIrTree('└── Module\n    ├── Import\n    └── Ability');
+    expect(roots).toHaveLength(1);
+    expect(roots[0].children.map(child => child.label)).toEqual(['Import', 'Ability']);
+  });
+});
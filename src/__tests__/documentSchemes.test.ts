@@ -0,0 +1,63 @@
+/*
+ * Jest tests for serving Jac documents outside the file system.
+ */
+
+jest.mock('vscode', () => {
+  class Uri {
+    constructor(public scheme: string, public path: string) {}
+  }
+  return {
+    Uri,
+    workspace: {
+      fs: {
+        isWritableFileSystem: (scheme: string) => (scheme === 'readonlyfs' ? false : scheme === 'memfs' ? true : undefined),
+      },
+    },
+  };
+}, { virtual: true });
+
+jest.mock('vscode-languageclient/node', () => ({
+  vsdiag: { DocumentDiagnosticReportKind: { full: 'full' } },
+}), { virtual: true });
+
+import * as vscode from 'vscode';
+import { createReadOnlyDiagnosticsMiddleware, getNonFileDocumentFilters, isReadOnlyScheme, isServedJacDocument } from '../lsp/documentSchemes';
+
+describe('documentSchemes', () => {
+  test('treats revisions and read-only file systems as read-only', () => {
+    expect(isReadOnlyScheme('git')).toBe(true);
+    expect(isReadOnlyScheme('readonlyfs')).toBe(true);
+    expect(isReadOnlyScheme('memfs')).toBe(false);
+    expect(isReadOnlyScheme('untitled')).toBe(false);
+    expect(isReadOnlyScheme('file')).toBe(false);
+  });
+
+  test('matches Jac documents of non-file schemes', () => {
+    expect(getNonFileDocumentFilters()).toContainEqual({ scheme: 'untitled', language: 'jac' });
+    expect(getNonFileDocumentFilters().some((filter: any) => filter.scheme === 'file')).toBe(false);
+  });
+
+  test('serves Jac documents on disk and on supported schemes only', () => {
+    const document = (languageId: string, scheme: string) => ({ languageId, uri: { scheme } }) as any;
+    expect(isServedJacDocument(document('jac', 'file'))).toBe(true);
+    expect(isServedJacDocument(document('jac', 'untitled'))).toBe(true);
+    expect(isServedJacDocument(document('jac', 'output'))).toBe(false);
+    expect(isServedJacDocument(document('python', 'file'))).toBe(false);
+  });
+
+  test('keeps diagnostics of read-only documents out of the Problems panel', async () => {
+    const middleware = createReadOnlyDiagnosticsMiddleware();
+    const handled: any[] = [];
+    const next = (uri: any, diagnostics: any[]) => handled.push([uri.scheme, diagnostics.length]);
+    const diagnostics: any[] = [{ message: 'unexpected token' }];
+
+    middleware.handleDiagnostics!(new (vscode as any).Uri('git', '/a.jac'), diagnostics, next);
+    middleware.handleDiagnostics!(new (vscode as any).Uri('untitled', 'Untitled-1'), diagnostics, next);
+    expect(handled).toEqual([['git', 0], ['untitled', 1]]);
+
+    const pull = jest.fn(() => ({ kind: 'full', items: diagnostics }));
+    const gitReport = await middleware.provideDiagnostics!(new (vscode as any).Uri('git', '/a.jac'), undefined, {} as any, pull as any);
+    expect(gitReport).toEqual({ kind: 'full', items: [] });
+    expect(pull).not.toHaveBeenCalled();
+  });
+});
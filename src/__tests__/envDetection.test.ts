@@ -0,0 +1,125 @@
+/*
+ * Jest tests for tool-specific environment detection in envDetection.
+ * Builds fake environment layouts in a temporary home directory.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  compareVersions,
+  diagnoseEnvironmentDetection,
+  findPythonEnvsWithJac,
+  identifyEnvironmentTool,
+} from '../utils/envDetection';
+
+const JAC_BIN = process.platform === 'win32' ? path.join('Scripts', 'jac.exe') : path.join('bin', 'jac');
+
+/** Creates an environment folder containing a fake jac executable and returns the jac path */
+function makeEnv(envRoot: string, pyvenvCfg?: string): string {
+  const jacPath = path.join(envRoot, JAC_BIN);
+  fs.mkdirSync(path.dirname(jacPath), { recursive: true });
+  fs.writeFileSync(jacPath, '');
+  if (pyvenvCfg !== undefined) {
+    fs.writeFileSync(path.join(envRoot, 'pyvenv.cfg'), pyvenvCfg);
+  }
+  return jacPath;
+}
+
+describe('envDetection - tool environments', () => {
+  const savedEnv = { ...process.env };
+  let tmpRoot: string;
+  let workspace: string;
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'jac-envs-'));
+    workspace = path.join(tmpRoot, 'workspace');
+    fs.mkdirSync(workspace);
+
+    process.env.HOME = path.join(tmpRoot, 'home');
+    process.env.USERPROFILE = process.env.HOME;
+    process.env.UV_TOOL_DIR = path.join(tmpRoot, 'uv-tools');
+    process.env.POETRY_VIRTUALENVS_PATH = path.join(tmpRoot, 'poetry');
+    process.env.WORKON_HOME = path.join(tmpRoot, 'pipenv');
+    process.env.PYENV_ROOT = path.join(tmpRoot, 'pyenv');
+    process.env.HATCH_DATA_DIR = path.join(tmpRoot, 'hatch');
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  test('finds environments owned by uv, Poetry, Pipenv, pyenv and Hatch', async () => {
+    const expected = [
+      makeEnv(path.join(tmpRoot, 'uv-tools', 'jaclang')),
+      makeEnv(path.join(tmpRoot, 'poetry', 'myapp-x1Y2-py3.12')),
+      makeEnv(path.join(tmpRoot, 'pipenv', 'myapp-AbCd1234')),
+      makeEnv(path.join(tmpRoot, 'pyenv', 'versions', '3.12.4')),
+      makeEnv(path.join(tmpRoot, 'pyenv', 'versions', '3.12.4', 'envs', 'jacdev')),
+      makeEnv(path.join(tmpRoot, 'hatch', 'env', 'virtual', 'myapp', 'Qw3rTy', 'default')),
+    ];
+
+    const envs = await findPythonEnvsWithJac(workspace);
+
+    for (const jacPath of expected) {
+      expect(envs).toContain(jacPath);
+    }
+  });
+
+  test('identifies the owning tool from the environment location', async () => {
+    await expect(identifyEnvironmentTool(makeEnv(path.join(tmpRoot, 'uv-tools', 'jaclang')))).resolves.toBe('uv');
+    await expect(identifyEnvironmentTool(makeEnv(path.join(tmpRoot, 'poetry', 'app-x1-py3.12')))).resolves.toBe('Poetry');
+    await expect(identifyEnvironmentTool(makeEnv(path.join(tmpRoot, 'pipenv', 'app-AbCd')))).resolves.toBe('Pipenv');
+    await expect(identifyEnvironmentTool(makeEnv(path.join(tmpRoot, 'pyenv', 'versions', '3.11.9')))).resolves.toBe('pyenv');
+    await expect(identifyEnvironmentTool(makeEnv(path.join(tmpRoot, 'hatch', 'env', 'virtual', 'app', 'h', 'test')))).resolves.toBe('Hatch');
+  });
+
+  test('diagnostics record accepted and rejected paths per strategy', async () => {
+    const found = makeEnv(path.join(workspace, '.venv'));
+    const brokenVenv = path.join(workspace, 'old-venv');
+    fs.mkdirSync(brokenVenv);
+    fs.writeFileSync(path.join(brokenVenv, 'pyvenv.cfg'), 'home = /usr/bin\n');
+
+    const reports = await diagnoseEnvironmentDetection(workspace);
+    const workspaceReport = reports.find(report => report.name === 'Workspace')!;
+
+    expect(workspaceReport.found).toEqual([found]);
+    expect(workspaceReport.durationMs).toBeGreaterThanOrEqual(0);
+    expect(workspaceReport.probes.filter(probe => probe.path === found)).toEqual([
+      { path: found, accepted: true, reason: 'jac executable found' },
+    ]);
+    expect(workspaceReport.probes).toContainEqual({
+      path: brokenVenv,
+      accepted: false,
+      reason: 'virtual environment without jac (jaclang not installed)',
+    });
+    expect(reports.map(report => report.name)).toEqual(expect.arrayContaining(['PATH scan', 'Conda environments', 'Poetry']));
+
+    const pyenvVirtualenv = makeEnv(path.join(tmpRoot, 'pyenv', 'versions', '3.12.4', 'envs', 'jacdev'));
+    const pyenvReport = (await diagnoseEnvironmentDetection(workspace)).find(report => report.name === 'pyenv')!;
+    expect(pyenvReport.probes).toContainEqual({ path: pyenvVirtualenv, accepted: true, reason: 'jac executable found' });
+  });
+
+  test('identifies in-project environments from pyvenv.cfg and lock files', async () => {
+    const uvVenv = makeEnv(path.join(workspace, '.venv'), 'home = /usr/bin\nuv = 0.5.11\n');
+    await expect(identifyEnvironmentTool(uvVenv)).resolves.toBe('uv');
+
+    const poetryProject = path.join(tmpRoot, 'poetry-project');
+    const poetryVenv = makeEnv(path.join(poetryProject, '.venv'), 'home = /usr/bin\n');
+    fs.writeFileSync(path.join(poetryProject, 'poetry.lock'), '');
+    await expect(identifyEnvironmentTool(poetryVenv)).resolves.toBe('Poetry');
+
+    const plainVenv = makeEnv(path.join(tmpRoot, 'plain', 'venv'), 'home = /usr/bin\n');
+    await expect(identifyEnvironmentTool(plainVenv)).resolves.toBeUndefined();
+  });
+});
+
+describe('envDetection - compareVersions', () => {
+  test('orders dotted versions numerically', () => {
+    expect(compareVersions('0.10.0', '0.9.3')).toBeGreaterThan(0);
+    expect(compareVersions('0.8.0', '0.8')).toBe(0);
+    expect(compareVersions('0.7.29', '0.8.0')).toBeLessThan(0);
+    expect(compareVersions('0.9.0rc1', '0.9.0')).toBe(0);
+  });
+});
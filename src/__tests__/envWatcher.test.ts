@@ -0,0 +1,57 @@
+/*
+ * Jest tests for watching selected Jac environments.
+ */
+
+const mockWatchers: { pattern: any; disposed: boolean }[] = [];
+const mockProbes: Record<string, () => void> = {};
+
+jest.mock('vscode', () => ({
+  Uri: { file: (fsPath: string) => ({ fsPath }) },
+  RelativePattern: class {
+    constructor(readonly base: any, readonly pattern: string) {}
+  },
+  EventEmitter: class {
+    event = () => ({ dispose: () => undefined });
+    fire() {}
+    dispose() {}
+  },
+  workspace: {
+    createFileSystemWatcher: (pattern: any) => {
+      const watcher = { pattern, disposed: false };
+      mockWatchers.push(watcher);
+      const listen = () => ({ dispose: () => undefined });
+      return {
+        onDidChange: listen,
+        onDidCreate: listen,
+        onDidDelete: listen,
+        dispose: () => { watcher.disposed = true; },
+      };
+    },
+  },
+}), { virtual: true });
+
+jest.mock('../utils/envDetection', () => ({
+  probeJacEnvironment: (jacPath: string) => new Promise(resolve => {
+    mockProbes[jacPath] = () => resolve({ jacVersion: '0.8.0' });
+  }),
+  validateJacExecutable: () => Promise.resolve(true),
+}));
+
+import { EnvWatcher } from '../environment/watcher';
+
+describe('EnvWatcher', () => {
+  test('creates no watchers for a path dropped while it was probed', async () => {
+    const watcher = new EnvWatcher();
+    const first = watcher.watch(['/envs/old/bin/jac']);
+    const second = watcher.watch(['/envs/new/bin/jac']);
+
+    mockProbes['/envs/old/bin/jac']();
+    mockProbes['/envs/new/bin/jac']();
+    await Promise.all([first, second]);
+
+    expect(mockWatchers.map(entry => entry.pattern.base.fsPath)).toEqual(['/envs/new/bin']);
+
+    watcher.dispose();
+    expect(mockWatchers.every(entry => entry.disposed)).toBe(true);
+  });
+});
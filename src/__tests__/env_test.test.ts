@@ -7,6 +7,8 @@ import { EnvManager } from '../environment/manager';
 import * as vscode from 'vscode';
 import * as envDetection from '../utils/envDetection';
 import { getLspManager, createAndStartLsp } from '../extension';
+import { installJac } from '../environment/installer';
+import { getActiveInterpreterJac, getPythonEnvironmentsApi } from '../utils/pythonExtension';
 
 
 // Inline mock for vscode-languageclient
@@ -23,6 +25,11 @@ jest.mock('vscode-languageclient/node', () => {
 });
 
 
+// Toggled by tests exercising "follow the Python extension's interpreter" mode
+let followPythonInterpreter = false;
+// Value of the jaclang-extension.jacPath setting
+let jacPathSetting = '';
+
 // Mock the vscode module to simulate VSCode API behavior
 jest.mock('vscode', () => {
   const statusBarItem = {
@@ -33,7 +40,32 @@ jest.mock('vscode', () => {
     command: undefined,
   };
 
+  const fileSystemWatcher = {
+    onDidChange: () => ({ dispose: () => undefined }),
+    onDidCreate: () => ({ dispose: () => undefined }),
+    onDidDelete: () => ({ dispose: () => undefined }),
+    dispose: () => undefined,
+  };
+
+  class EventEmitter {
+    private listeners: Array<(value: any) => void> = [];
+    event = (listener: (value: any) => void) => {
+      this.listeners.push(listener);
+      return { dispose: () => undefined };
+    };
+    fire(value: any) {
+      this.listeners.forEach(listener => listener(value));
+    }
+    dispose() {
+      this.listeners = [];
+    }
+  }
+
   return {
+    EventEmitter,
+    RelativePattern: class {
+      constructor(public base: any, public pattern: string) {}
+    },
     window: {
       createStatusBarItem: () => statusBarItem,
       showWarningMessage: jest.fn(),
@@ -42,6 +74,9 @@ jest.mock('vscode', () => {
       showQuickPick: jest.fn(),
       showInputBox: jest.fn(),
       showOpenDialog: jest.fn(),
+      showWorkspaceFolderPick: jest.fn(),
+      withProgress: jest.fn(),
+      onDidChangeActiveTextEditor: jest.fn(),
     },
     commands: {
       executeCommand: jest.fn(),
@@ -54,19 +89,45 @@ jest.mock('vscode', () => {
       file: jest.fn((str: string) => ({ fsPath: str, toString: () => str })),
     },
     StatusBarAlignment: { Left: 1, Right: 2 },
+    ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+    ProgressLocation: { Notification: 15 },
     workspace: {
       workspaceFolders: [
         { uri: { fsPath: '/mock/workspace' } }
       ],
       textDocuments: [],
       onDidOpenTextDocument: jest.fn(),
+      getWorkspaceFolder: jest.fn(),
+      onDidChangeWorkspaceFolders: jest.fn(),
+      createFileSystemWatcher: () => fileSystemWatcher,
+      getConfiguration: () => ({
+        get: (key: string, defaultValue?: any) => {
+          if (key === 'followPythonInterpreter') return followPythonInterpreter;
+          if (key === 'jacPath') return jacPathSetting;
+          return defaultValue;
+        },
+        update: jest.fn(),
+      }),
+      onDidChangeConfiguration: jest.fn(),
     },
   };
 });
 
 jest.mock('../utils/envDetection', () => ({
   findPythonEnvsWithJac: jest.fn(),
+  identifyEnvironmentTool: jest.fn(),
   validateJacExecutable: jest.fn(),
+  probeJacEnvironment: jest.fn(),
+  compareVersions: jest.requireActual('../utils/envDetection').compareVersions,
+}));
+
+jest.mock('../utils/pythonExtension', () => ({
+  getPythonEnvironmentsApi: jest.fn(),
+  getActiveInterpreterJac: jest.fn(),
+}));
+
+jest.mock('../environment/installer', () => ({
+  installJac: jest.fn(),
 }));
 
 // Mock the LspManager class
@@ -74,6 +135,7 @@ const mockLspManager = {
   start: jest.fn().mockResolvedValue(undefined),
   stop: jest.fn().mockResolvedValue(undefined),
   restart: jest.fn().mockResolvedValue(undefined),
+  restartServers: jest.fn(),
   getClient: jest.fn().mockReturnValue(undefined),
 };
 
@@ -90,6 +152,8 @@ describe('EnvManager (Jest)', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    followPythonInterpreter = false;
+    jacPathSetting = '';
 
     // Reset LSP manager mock
     mockLspManager.start.mockClear();
@@ -102,6 +166,10 @@ describe('EnvManager (Jest)', () => {
         get: jest.fn().mockReturnValue(undefined),
         update: jest.fn().mockResolvedValue(undefined),
       },
+      workspaceState: {
+        get: jest.fn().mockReturnValue(undefined),
+        update: jest.fn().mockResolvedValue(undefined),
+      },
       subscriptions: [],
     };
 
@@ -156,7 +224,7 @@ describe('EnvManager (Jest)', () => {
     await (envManager as any).handleManualPathEntry();
 
     expect(envDetection.validateJacExecutable).toHaveBeenCalledWith('/fake/jac');
-    expect(context.globalState.update).toHaveBeenCalledWith('jacEnvPath', '/fake/jac');
+    expect(context.workspaceState.update).toHaveBeenCalledWith('jacEnvPath', '/fake/jac');
 
     // first message: set env
     expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
@@ -214,7 +282,7 @@ describe('EnvManager (Jest)', () => {
     // Execute the environment selection workflow
     await envManager.promptEnvironmentSelection();
 
-    expect(context.globalState.update).toHaveBeenCalledWith('jacEnvPath', '/path/to/jac');
+    expect(context.workspaceState.update).toHaveBeenCalledWith('jacEnvPath', '/path/to/jac');
 
     expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
       'Selected Jac environment: Jac (MyEnv)',
@@ -277,7 +345,7 @@ describe('EnvManager (Jest)', () => {
 
     await envManager.init();
 
-    expect(context.globalState.update).toHaveBeenCalledWith('jacEnvPath', undefined);
+    expect(context.workspaceState.update).toHaveBeenCalledWith('jacEnvPath', undefined);
     expect((envManager as any).statusBar.text).toContain('No Env');
     expect(vscode.window.showWarningMessage).toHaveBeenCalled();
   });
@@ -297,7 +365,7 @@ describe('EnvManager (Jest)', () => {
 
     await envManager.promptEnvironmentSelection();
 
-    expect(context.globalState.update).not.toHaveBeenCalled();
+    expect(context.workspaceState.update).not.toHaveBeenCalled();
     expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
   });
 
@@ -305,7 +373,7 @@ describe('EnvManager (Jest)', () => {
    * TEST 10: LSP restart without VSCode reload on environment change
    *
    * - When LSP manager is available, it should restart the language server
-   * - Environment change is saved to global state
+   * - Environment change is saved to workspace state
    */
   test("restarts LSP when manager exists", async () => {
     (getLspManager as jest.Mock).mockReturnValue(mockLspManager);
@@ -324,7 +392,7 @@ describe('EnvManager (Jest)', () => {
   /**
    * TEST 11: LSP restart on manual path entry
    *
-   * - Valid manual path is saved to global state
+   * - Valid manual path is saved to workspace state
    * - LSP is restarted if manager exists
    */
   test("manual path success restarts LSP if manager exists", async () => {
@@ -334,7 +402,7 @@ describe('EnvManager (Jest)', () => {
     (getLspManager as jest.Mock).mockReturnValue(mockLspManager);
 
     await (envManager as any).handleManualPathEntry();
-    expect(context.globalState.update).toHaveBeenCalledWith("jacEnvPath", "/manual/jac");
+    expect(context.workspaceState.update).toHaveBeenCalledWith("jacEnvPath", "/manual/jac");
     expect(mockLspManager.restart).toHaveBeenCalledTimes(1);
   });
 
@@ -342,7 +410,7 @@ describe('EnvManager (Jest)', () => {
    * TEST 12: File browser path selection without LSP
    *
    * - User can browse and select Jac executable via file dialog
-   * - Selected path is validated and saved to global state
+   * - Selected path is validated and saved to workspace state
    * - LSP manager is created and started when not already running
    */
   test("file browser success with no LSP", async () => {
@@ -354,7 +422,7 @@ describe('EnvManager (Jest)', () => {
 
     await (envManager as any).handleFileBrowser();
 
-    expect(context.globalState.update).toHaveBeenCalledWith("jacEnvPath", "/browser/jac");
+    expect(context.workspaceState.update).toHaveBeenCalledWith("jacEnvPath", "/browser/jac");
     expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
       'Jac environment set to: /browser/jac'
     );
@@ -365,7 +433,7 @@ describe('EnvManager (Jest)', () => {
   /**
    * TEST 13: LSP restart on file browser selection
    *
-   * - Path selected via file browser is saved to global state
+   * - Path selected via file browser is saved to workspace state
    * - LSP is restarted if manager exists
    */
   test("file browser success restarts LSP if manager exists", async () => {
@@ -377,7 +445,7 @@ describe('EnvManager (Jest)', () => {
 
     await (envManager as any).handleFileBrowser();
 
-    expect(context.globalState.update).toHaveBeenCalledWith("jacEnvPath", "/browser/jac");
+    expect(context.workspaceState.update).toHaveBeenCalledWith("jacEnvPath", "/browser/jac");
     expect(mockLspManager.restart).toHaveBeenCalledTimes(1);
   });
 
@@ -410,4 +478,237 @@ describe('EnvManager (Jest)', () => {
     expect(vscode.window.showQuickPick).toHaveBeenCalled();
   });
 
-});
\ No newline at end of file
+  /**
+   * TEST 15: Multi-root workspaces resolve the environment per folder
+   *
+   * - A folder with its own selection uses it
+   * - A folder without one falls back to the window default
+   */
+  test('resolves jac path against the folder owning the resource', () => {
+    const api = { name: 'api', uri: { fsPath: '/ws/api', toString: () => 'file:///ws/api' } };
+    const web = { name: 'web', uri: { fsPath: '/ws/web', toString: () => 'file:///ws/web' } };
+    (vscode.workspace.getWorkspaceFolder as jest.Mock).mockImplementation((uri: any) =>
+      uri.fsPath.startsWith('/ws/api') ? api : web
+    );
+
+    (envManager as any).jacPath = '/default/bin/jac';
+    (envManager as any).folderEnvs = { 'file:///ws/api': '/ws/api/.venv/bin/jac' };
+
+    expect(envManager.getJacPath({ fsPath: '/ws/api/main.jac' } as any)).toBe('/ws/api/.venv/bin/jac');
+    expect(envManager.getJacPath({ fsPath: '/ws/web/main.jac' } as any)).toBe('/default/bin/jac');
+  });
+
+  /**
+   * TEST 16: Selection is stored for the active folder
+   *
+   * - The chosen environment is saved in workspaceState under the folder URI
+   * - It also becomes the workspace default for folders without a selection, never the global one
+   */
+  test('stores the selection for the active workspace folder', async () => {
+    const api = { name: 'api', uri: { fsPath: '/ws/api', toString: () => 'file:///ws/api' } };
+    (envManager as any).activeFolder = api;
+    (getLspManager as jest.Mock).mockReturnValue(mockLspManager);
+    (envDetection.findPythonEnvsWithJac as jest.Mock).mockResolvedValue(['/ws/api/.venv/bin/jac']);
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValue({
+      env: '/ws/api/.venv/bin/jac',
+      label: 'Jac (.venv)',
+      description: '/ws/api/.venv/bin/jac',
+    });
+
+    await envManager.promptEnvironmentSelection();
+
+    expect(context.workspaceState.update).toHaveBeenCalledWith('jacEnvPaths', {
+      'file:///ws/api': '/ws/api/.venv/bin/jac',
+    });
+    expect(context.workspaceState.update).toHaveBeenCalledWith('jacEnvPath', '/ws/api/.venv/bin/jac');
+    expect(context.globalState.update).not.toHaveBeenCalled();
+  });
+
+  /**
+   * TEST 17: Outdated jaclang versions are flagged before the LSP starts
+   *
+   * - A version below the supported minimum shows a warning with an upgrade offer
+   * - Probed versions appear in the status bar tooltip
+   */
+  test('warns when the selected jaclang is older than the minimum version', async () => {
+    (envManager as any).jacPath = '/old/env/bin/jac';
+    (envDetection.probeJacEnvironment as jest.Mock).mockResolvedValue({
+      jacPath: '/old/env/bin/jac',
+      pythonPath: '/old/env/bin/python',
+      jacVersion: '0.5.2',
+      pythonVersion: '3.11.4',
+      plugins: { byllm: '0.1.0' },
+    });
+    (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Continue Anyway');
+
+    await envManager.checkCompatibility();
+    envManager.updateStatusBar();
+
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      expect.stringContaining('jaclang 0.5.2 is older than the minimum supported version'),
+      'Upgrade jaclang',
+      'Continue Anyway'
+    );
+    expect(vscode.window.withProgress).not.toHaveBeenCalled();
+    expect((envManager as any).statusBar.tooltip).toContain('jaclang 0.5.2 · Python 3.11.4 · byllm 0.1.0');
+  });
+
+  /**
+   * TEST 18: "Install Jac" runs the in-editor installer
+   *
+   * - Choosing "Install Jac" with no environments found runs the installer
+   * - The new environment is selected and the LSP is started
+   */
+  test('Install Jac action installs, selects the new env and starts the LSP', async () => {
+    (getLspManager as jest.Mock).mockReturnValue(undefined);
+    (envDetection.findPythonEnvsWithJac as jest.Mock).mockResolvedValue([]);
+    (envDetection.validateJacExecutable as jest.Mock).mockResolvedValue(true);
+    (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Install Jac');
+    (installJac as jest.Mock).mockResolvedValue('/mock/workspace/.venv/bin/jac');
+
+    await (envManager as any).showEnvironmentPrompt();
+
+    expect(installJac).toHaveBeenCalledWith(expect.objectContaining({ uri: { fsPath: '/mock/workspace' } }));
+    expect(context.workspaceState.update).toHaveBeenCalledWith('jacEnvPath', '/mock/workspace/.venv/bin/jac');
+    expect(createAndStartLsp).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * TEST 19: Selected environment disappears
+   *
+   * - Selections pointing at the removed executable are cleared
+   * - The user is prompted to select a new environment
+   */
+  test('clears the selection and prompts when the watched env is removed', async () => {
+    (envManager as any).jacPath = '/gone/bin/jac';
+    (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
+
+    (envManager as any).watcher.removedEmitter.fire('/gone/bin/jac');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(context.workspaceState.update).toHaveBeenCalledWith('jacEnvPath', undefined);
+    expect((envManager as any).statusBar.text).toContain('No Env');
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'The selected Jac environment is no longer available: /gone/bin/jac',
+      'Select Environment',
+      'Install Jac'
+    );
+  });
+
+  /**
+   * TEST 20: jaclang upgraded in place
+   *
+   * - A version change restarts the servers of every folder using that environment,
+   *   even when it is not the active folder's
+   */
+  test('restarts the servers of the folders whose env changes version', async () => {
+    const api = { name: 'api', uri: { fsPath: '/ws/api', toString: () => 'file:///ws/api' } };
+    const web = { name: 'web', uri: { fsPath: '/ws/web', toString: () => 'file:///ws/web' } };
+    (vscode.workspace.getWorkspaceFolder as jest.Mock).mockImplementation((uri: any) =>
+      uri.fsPath.startsWith('/ws/api') ? api : web
+    );
+    (envManager as any).activeFolder = web;
+    (envManager as any).folderEnvs = { 'file:///ws/api': '/ws/api/.venv/bin/jac', 'file:///ws/web': '/ws/web/.venv/bin/jac' };
+    (getLspManager as jest.Mock).mockReturnValue(mockLspManager);
+    const restartedFolders: any[] = [];
+    mockLspManager.restartServers.mockImplementation(async (filter: (folder: any) => boolean) => {
+      restartedFolders.push(...[api, web].filter(filter));
+      return restartedFolders.length;
+    });
+    (envDetection.probeJacEnvironment as jest.Mock).mockResolvedValue({
+      jacPath: '/ws/api/.venv/bin/jac', jacVersion: '0.9.4', plugins: {},
+    });
+
+    await (envManager as any).handleVersionChanged({
+      jacPath: '/ws/api/.venv/bin/jac', previousVersion: '0.9.3', currentVersion: '0.9.4',
+    });
+
+    expect(restartedFolders).toEqual([api]);
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'jaclang changed from 0.9.3 to 0.9.4. Restarted the Jac Language Server.'
+    );
+  });
+
+  /**
+   * TEST 21: Following the Python extension's interpreter
+   *
+   * - In follow mode the interpreter selected in the Python extension wins over stored selections
+   * - Switching that interpreter restarts the LSP on the new environment
+   */
+  test('follows the Python extension interpreter when enabled', async () => {
+    followPythonInterpreter = true;
+    (envManager as any).jacPath = '/stored/bin/jac';
+    (getLspManager as jest.Mock).mockReturnValue(mockLspManager);
+    (getActiveInterpreterJac as jest.Mock).mockResolvedValue({
+      pythonPath: '/py/env/bin/python',
+      jacPath: '/py/env/bin/jac',
+    });
+
+    await (envManager as any).handleInterpreterChanged(undefined);
+
+    expect(envManager.getJacPath()).toBe('/py/env/bin/jac');
+    expect(mockLspManager.restart).toHaveBeenCalledTimes(1);
+
+    followPythonInterpreter = false;
+    expect(envManager.getJacPath()).toBe('/stored/bin/jac');
+  });
+
+  /**
+   * TEST 22: jacPath setting takes precedence over the stored selection
+   *
+   * - ${workspaceFolder} is substituted with the folder path
+   * - The selection source names the setting
+   */
+  test('jacPath setting overrides the stored selection', () => {
+    (envManager as any).jacPath = '/stored/bin/jac';
+    jacPathSetting = '${workspaceFolder}/.venv/bin/jac';
+
+    expect(envManager.getJacPath()).toBe('/mock/workspace/.venv/bin/jac');
+    expect(envManager.getSelectionSource()).toBe('the jaclang-extension.jacPath setting');
+  });
+
+  /**
+   * TEST 23: The default of older versions is migrated once
+   *
+   * - A default left in globalState is copied into workspaceState on first load
+   * - Once migrated, workspaceState alone decides, even after the selection was cleared
+   */
+  test('migrates the old global default into the workspace once', async () => {
+    const workspaceValues: Record<string, any> = {};
+    context.workspaceState.get.mockImplementation((key: string) => workspaceValues[key]);
+    context.workspaceState.update.mockImplementation(async (key: string, value: any) => { workspaceValues[key] = value; });
+    context.globalState.get.mockReturnValue('/legacy/bin/jac');
+
+    expect(await (envManager as any).loadDefaultSelection()).toBe('/legacy/bin/jac');
+    expect(workspaceValues.jacEnvPath).toBe('/legacy/bin/jac');
+
+    workspaceValues.jacEnvPath = undefined;
+    expect(await (envManager as any).loadDefaultSelection()).toBeUndefined();
+    expect(context.globalState.update).not.toHaveBeenCalled();
+  });
+
+  /**
+   * TEST 24: An explicit pick ends follow mode with a single restart
+   *
+   * - Turning the setting off from the pick does not restart the server on its own
+   * - A later change of the setting by the user still restarts it
+   */
+  test('restarts the LSP once when a pick ends follow mode', async () => {
+    followPythonInterpreter = true;
+    (getLspManager as jest.Mock).mockReturnValue(mockLspManager);
+    (getPythonEnvironmentsApi as jest.Mock).mockResolvedValue({
+      onDidChangeActiveEnvironmentPath: () => ({ dispose: () => undefined }),
+    });
+    await (envManager as any).setupPythonInterpreterFollowing();
+    const onConfigurationChanged = (vscode.workspace.onDidChangeConfiguration as jest.Mock).mock.calls[0][0];
+    const followChanged = { affectsConfiguration: (key: string) => key === 'jaclang-extension.followPythonInterpreter' };
+
+    await (envManager as any).storeSelection('/picked/bin/jac', undefined);
+    followPythonInterpreter = false;
+    await onConfigurationChanged(followChanged);
+    expect(mockLspManager.restart).not.toHaveBeenCalled();
+
+    await onConfigurationChanged(followChanged);
+    expect(mockLspManager.restart).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,31 @@
+/*
+ * Jest tests for connecting to an externally running Jac language server.
+ */
+
+import * as net from 'net';
+import { connectToServer, parseServerAddress } from '../lsp/externalServer';
+
+describe('externalServer', () => {
+  test('parses host:port, bare ports and IPv6 hosts', () => {
+    expect(parseServerAddress('localhost:2087')).toEqual({ host: 'localhost', port: 2087 });
+    expect(parseServerAddress(' 2087 ')).toEqual({ host: '127.0.0.1', port: 2087 });
+    expect(parseServerAddress(':2087')).toEqual({ host: '127.0.0.1', port: 2087 });
+    expect(parseServerAddress('[::1]:2087')).toEqual({ host: '::1', port: 2087 });
+    expect(parseServerAddress('')).toBeUndefined();
+    expect(parseServerAddress('localhost')).toBeUndefined();
+    expect(parseServerAddress('localhost:70000')).toBeUndefined();
+  });
+
+  test('connects to a listening server and reports refused connections', async () => {
+    const server = net.createServer(socket => socket.end());
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as net.AddressInfo).port;
+
+    const streams = await connectToServer({ host: '127.0.0.1', port });
+    expect(streams.reader).toBe(streams.writer);
+    (streams.reader as net.Socket).destroy();
+
+    await new Promise(resolve => server.close(resolve));
+    await expect(connectToServer({ host: '127.0.0.1', port })).rejects.toThrow(`127.0.0.1:${port}`);
+  });
+});
@@ -0,0 +1,113 @@
+/*
+ * Jest tests for switching language server capabilities on and off.
+ */
+
+const settings: Record<string, any> = {};
+let configListener: ((event: any) => void) | undefined;
+
+jest.mock('vscode', () => {
+  class Uri {
+    constructor(public scheme: string, public path: string) {}
+    toString() { return `${this.scheme}:${this.path}`; }
+  }
+  return {
+    Uri,
+    workspace: {
+      textDocuments: [],
+      getConfiguration: () => ({
+        get: (key: string, defaultValue: any) => (key in settings ? settings[key] : defaultValue),
+      }),
+      onDidChangeConfiguration: (listener: (event: any) => void) => {
+        configListener = listener;
+        return { dispose: () => { configListener = undefined; } };
+      },
+    },
+  };
+}, { virtual: true });
+
+jest.mock('vscode-languageclient/node', () => ({
+  SemanticTokensRegistrationType: { method: 'textDocument/semanticTokens' },
+  vsdiag: { DocumentDiagnosticReportKind: { full: 'full' } },
+}), { virtual: true });
+
+import * as vscode from 'vscode';
+import type { Middleware } from 'vscode-languageclient/node';
+import { chainMiddleware, FeatureToggles, isFeatureEnabled } from '../lsp/featureToggles';
+
+const fileUri = (path: string) => new (vscode as any).Uri('file', path);
+
+describe('featureToggles', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(settings)) delete settings[key];
+  });
+
+  test('capabilities are enabled unless switched off', () => {
+    expect(isFeatureEnabled('hover')).toBe(true);
+    settings['features.hover'] = false;
+    expect(isFeatureEnabled('hover')).toBe(false);
+  });
+
+  test('disabled capabilities never reach the server', async () => {
+    const middleware = new FeatureToggles().createMiddleware();
+    const document = { uri: fileUri('/a.jac') } as any;
+    const next = jest.fn(() => 'hover');
+
+    expect(await middleware.provideHover!(document, {} as any, {} as any, next as any)).toBe('hover');
+    settings['features.hover'] = false;
+    expect(await middleware.provideHover!(document, {} as any, {} as any, next as any)).toBeUndefined();
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  test('restores published diagnostics when they are switched back on', () => {
+    const toggles = new FeatureToggles();
+    const middleware = toggles.createMiddleware();
+    const uri = fileUri('/a.jac');
+    const diagnostics: any[] = [{ message: 'undefined name' }];
+    const client = { diagnostics: { set: jest.fn() }, isRunning: () => true } as any;
+    const watcher = toggles.watch(client);
+
+    settings['features.diagnostics'] = false;
+    const shown: any[] = [];
+    middleware.handleDiagnostics!(uri, diagnostics, (_uri, items) => shown.push(items));
+    expect(shown).toEqual([[]]);
+
+    settings['features.diagnostics'] = true;
+    configListener!({ affectsConfiguration: (section: string) => section === 'jaclang-extension.features.diagnostics' });
+    expect(client.diagnostics.set).toHaveBeenCalledWith(uri, diagnostics);
+    watcher.dispose();
+  });
+
+  test('chained middleware runs both hooks before the server', () => {
+    const calls: string[] = [];
+    const first = {
+      handleDiagnostics: (uri: any, diagnostics: any[], next: any) => { calls.push('first'); next(uri, diagnostics.slice(1)); },
+    };
+    const second = {
+      handleDiagnostics: (uri: any, diagnostics: any[], next: any) => { calls.push('second'); next(uri, diagnostics); },
+      provideHover: () => null,
+    };
+    const chained = chainMiddleware<Middleware>(first, second);
+    const next = jest.fn();
+
+    chained.handleDiagnostics!(fileUri('/a.jac'), [1, 2] as any, next);
+    expect(calls).toEqual(['first', 'second']);
+    expect(next).toHaveBeenCalledWith(expect.anything(), [2]);
+    expect(chained.provideHover).toBe(second.provideHover);
+  });
+
+  test('nested middlewares are chained too', () => {
+    const calls: string[] = [];
+    const configuration = (name: string) => (params: any, token: any, next: any) => {
+      calls.push(name);
+      return next(params, token);
+    };
+    const chained = chainMiddleware<Middleware>(
+      { workspace: { configuration: configuration('first') } },
+      { workspace: { configuration: configuration('second') } }
+    );
+
+    const result = chained.workspace!.configuration!({ items: [] }, {} as any, () => ['value']);
+    expect(result).toEqual(['value']);
+    expect(calls).toEqual(['first', 'second']);
+  });
+});
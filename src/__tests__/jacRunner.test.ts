@@ -0,0 +1,71 @@
+/*
+ * Jest tests for running named run profiles in their terminals.
+ */
+
+const mockSentText: string[] = [];
+const mockWarnings: string[] = [];
+let mockSettings: Record<string, any> = {};
+
+jest.mock('vscode', () => ({
+  Uri: { file: (fsPath: string) => ({ fsPath }) },
+  window: {
+    terminals: [],
+    createTerminal: () => ({ name: 'Jac', show: () => undefined, sendText: (text: string) => mockSentText.push(text) }),
+    showWarningMessage: (message: string) => mockWarnings.push(message),
+    showErrorMessage: () => undefined,
+  },
+  workspace: {
+    getConfiguration: () => ({
+      get: (key: string, defaultValue?: any) => (key in mockSettings ? mockSettings[key] : defaultValue),
+    }),
+  },
+}), { virtual: true });
+
+import { runJacProfile } from '../utils/jacRunner';
+import { ResolvedRunProfile } from '../utils/runProfiles';
+
+describe('runJacProfile', () => {
+  const folder: any = { name: 'app', uri: { fsPath: '/work/app' } };
+  const envManager: any = {
+    resolveFolder: () => folder,
+    getProjectConfig: () => ({ args: ['--port', '8000'] }),
+    getJacCommand: (args: string[]) => ({ command: 'jac', args }),
+  };
+  const profile: ResolvedRunProfile = {
+    name: 'dev',
+    filePath: '/work/app/main.jac',
+    command: 'run',
+    args: ['--debug'],
+    env: {},
+    cwd: '/work/app',
+  };
+
+  beforeEach(() => {
+    mockSentText.length = 0;
+    mockWarnings.length = 0;
+    mockSettings = {};
+  });
+
+  test('passes jac.toml run args ahead of the profile args', () => {
+    runJacProfile(profile, envManager);
+    runJacProfile({ ...profile, command: 'check' }, envManager);
+
+    expect(mockSentText).toEqual([
+      'jac run /work/app/main.jac --port 8000 --debug',
+      'jac check /work/app/main.jac --debug',
+    ]);
+    expect(mockWarnings).toEqual([]);
+  });
+
+  test('warns that env and cwd stay on the host behind a command template', () => {
+    mockSettings = { commandTemplate: 'docker exec -i box jac' };
+
+    runJacProfile(profile, envManager);
+    expect(mockWarnings).toEqual([]);
+
+    runJacProfile({ ...profile, env: { MODE: 'dev' } }, envManager);
+    runJacProfile({ ...profile, cwd: '/work/app/src' }, envManager);
+    expect(mockWarnings).toHaveLength(2);
+    expect(mockWarnings[0]).toContain('Run profile "dev"');
+  });
+});
@@ -0,0 +1,80 @@
+/*
+ * Jest tests for supervising a crashed language server through failed restarts.
+ */
+
+const mockClients: any[] = [];
+const mockErrors: string[] = [];
+let mockStartFails = false;
+
+jest.mock('vscode', () => ({
+  EventEmitter: class {
+    event = () => ({ dispose: () => undefined });
+    fire() {}
+    dispose() {}
+  },
+  window: {
+    createOutputChannel: () => ({ append: () => undefined, appendLine: () => undefined, show: () => undefined, dispose: () => undefined }),
+    showErrorMessage: (message: string) => { mockErrors.push(message); return Promise.resolve(undefined); },
+  },
+  commands: { executeCommand: () => Promise.resolve() },
+}), { virtual: true });
+
+jest.mock('vscode-languageclient/node', () => ({
+  CloseAction: { DoNotRestart: 1, Restart: 2 },
+  ErrorAction: { Continue: 1, Shutdown: 2 },
+  LanguageClient: class {
+    constructor(_id: string, _name: string, _serverOptions: any, readonly options: any) { mockClients.push(this); }
+    start() { return mockStartFails ? Promise.reject(new Error('spawn jac ENOENT')) : Promise.resolve(); }
+    stop() { return Promise.resolve(); }
+    dispose() {}
+  },
+}), { virtual: true });
+
+jest.mock('../utils/commandWrapper', () => ({ getCommandTemplate: () => '', getPathMappings: () => [] }));
+jest.mock('../lsp/protocolRecorder', () => ({ isProtocolRecordingEnabled: () => false }));
+jest.mock('../lsp/externalServer', () => ({ getExternalServerAddress: () => undefined }));
+jest.mock('../lsp/serverSettings', () => ({
+  createConfigurationMiddleware: () => undefined,
+  getServerSettings: () => ({}),
+  watchServerSettings: () => ({ dispose: () => undefined }),
+}));
+jest.mock('../lsp/documentSchemes', () => ({
+  createReadOnlyDiagnosticsMiddleware: () => ({}),
+  getNonFileDocumentFilters: () => [],
+}));
+jest.mock('../lsp/featureToggles', () => ({
+  chainMiddleware: (first: object, second: object) => ({ ...first, ...second }),
+  FeatureToggles: class {
+    createMiddleware() { return {}; }
+    watch() { return { dispose: () => undefined }; }
+    clear() {}
+  },
+}));
+
+import { JacServer } from '../lsp/jacServer';
+
+describe('JacServer', () => {
+  const envManager: any = { getJacCommand: (args: string[]) => ({ command: 'jac', args }) };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('keeps backing off through failed restarts and gives up with a notification', async () => {
+    jest.useFakeTimers();
+    const server = new JacServer(undefined, envManager, () => undefined);
+    await server.start();
+    expect(server.getState()).toBe('running');
+
+    mockStartFails = true;
+    mockClients[0].options.errorHandler.closed();
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    // The exit and four failed restarts make five crashes, the supervisor's limit
+    expect(mockClients).toHaveLength(5);
+    expect(server.getState()).toBe('crashed');
+    expect(mockErrors).toEqual([
+      'The Jac Language Server crashed 5 times in a short period and will not be restarted automatically.',
+    ]);
+  });
+});
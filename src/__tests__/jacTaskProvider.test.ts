@@ -0,0 +1,111 @@
+/*
+ * Jest tests for the jac task provider.
+ */
+
+const activeEditor: { current: any } = { current: undefined };
+
+jest.mock('vscode', () => {
+  class Task {
+    group: any;
+    constructor(public definition: any, public scope: any, public name: string, public source: string, public execution: any, public problemMatchers: string[]) {}
+  }
+  class ProcessExecution {
+    constructor(public process: string, public args: string[], public options: any) {}
+  }
+  return {
+    Task,
+    ProcessExecution,
+    TaskGroup: { Build: 'build', Test: 'test', Clean: 'clean' },
+    TaskScope: { Workspace: 2 },
+    Uri: { file: (fsPath: string) => ({ fsPath, scheme: 'file' }) },
+    window: {
+      get activeTextEditor() { return activeEditor.current; },
+    },
+    workspace: {
+      workspaceFolders: [{ name: 'app', uri: { fsPath: '/ws/app' } }],
+      getWorkspaceFolder: () => ({ name: 'app', uri: { fsPath: '/ws/app' } }),
+    },
+  };
+}, { virtual: true });
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildTaskArgs, JAC_PROBLEM_MATCHERS, JacTaskProvider } from '../tasks/jacTaskProvider';
+
+const envManager: any = {
+  getProjectConfig: () => ({ entryPoint: '/ws/app/main.jac', args: ['--no-cache'] }),
+  getJacCommand: (args: string[]) => ({ command: '/venv/bin/jac', args }),
+};
+
+describe('JacTaskProvider', () => {
+  beforeEach(() => {
+    activeEditor.current = undefined;
+  });
+
+  test('passes the file, and the project arguments to run only', () => {
+    expect(buildTaskArgs({ type: 'jac', command: 'run' }, '/a.jac', ['--no-cache'])).toEqual(['run', '/a.jac', '--no-cache']);
+    expect(buildTaskArgs({ type: 'jac', command: 'check', args: ['--strict'] }, '/a.jac', ['--no-cache'])).toEqual(['check', '/a.jac', '--strict']);
+    expect(buildTaskArgs({ type: 'jac', command: 'clean' }, '/a.jac')).toEqual(['clean']);
+  });
+
+  test('offers tasks for the entry point and the active file', () => {
+    activeEditor.current = { document: { languageId: 'jac', uri: { scheme: 'file', fsPath: '/ws/app/tools/seed.jac' } } };
+    const tasks = new JacTaskProvider(envManager).provideTasks();
+
+    expect(tasks.map(task => task.name)).toEqual([
+      'run tools/seed.jac', 'serve tools/seed.jac', 'test tools/seed.jac', 'check tools/seed.jac', 'build tools/seed.jac',
+      'run main.jac', 'serve main.jac', 'test main.jac', 'check main.jac', 'build main.jac',
+      'clean',
+    ]);
+    const run = tasks[5] as any;
+    expect(run.execution.process).toBe('/venv/bin/jac');
+    expect(run.execution.args).toEqual(['run', '/ws/app/main.jac', '--no-cache']);
+    expect(run.problemMatchers).toEqual(['$jac', '$jac-traceback', '$jac-traceback-carets']);
+    expect((tasks[3] as any).group).toBe('build');
+  });
+
+  test('resolves tasks.json files against the workspace folder', () => {
+    const folder = { name: 'app', uri: { fsPath: '/ws/app' } };
+    const task: any = { definition: { type: 'jac', command: 'test', file: 'tests/test_graph.jac' }, scope: folder, name: 'graph tests' };
+    const resolved: any = new JacTaskProvider(envManager).resolveTask(task);
+
+    expect(resolved.name).toBe('graph tests');
+    expect(resolved.execution.args).toEqual(['test', '/ws/app/tests/test_graph.jac']);
+    expect(resolved.group).toBe('test');
+  });
+});
+
+describe('problem matchers', () => {
+  const contributes = JSON.parse(fs.readFileSync(path.join(process.cwd(), 'package.json'), 'utf8')).contributes;
+
+  // Applies the matchers the way VS Code does: each pattern step must match the next line
+  function matchProblems(output: string): Array<{ file: string; line: string; code: string; message: string }> {
+    const lines = output.split('\n');
+    const problems = [];
+    for (const name of JAC_PROBLEM_MATCHERS) {
+      const matcher = contributes.problemMatchers.find((candidate: any) => `$${candidate.name}` === name);
+      const pattern = contributes.problemPatterns.find((candidate: any) => `$${candidate.name}` === matcher.pattern);
+      const steps: any[] = pattern.patterns ?? [pattern];
+      for (let start = 0; start + steps.length <= lines.length; start++) {
+        const matches = steps.map((step, offset) => new RegExp(step.regexp).exec(lines[start + offset]));
+        if (matches.some(match => !match)) continue;
+        const capture = (key: string) => {
+          const index = steps.findIndex(step => step[key] !== undefined);
+          return index < 0 ? '' : matches[index]![steps[index][key]];
+        };
+        problems.push({ file: capture('file'), line: capture('line'), code: capture('code'), message: capture('message') });
+      }
+    }
+    return problems;
+  }
+
+  for (const fixture of ['traceback-py310.txt', 'traceback-py311.txt']) {
+    test(`reports the raising frame of ${fixture} once`, () => {
+      const output = fs.readFileSync(path.join(__dirname, 'fixtures', fixture), 'utf8');
+
+      expect(matchProblems(output)).toEqual([
+        { file: '/ws/app/main.jac', line: '4', code: 'ZeroDivisionError', message: 'division by zero' },
+      ]);
+    });
+  }
+});
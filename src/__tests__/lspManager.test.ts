@@ -0,0 +1,164 @@
+/*
+ * Jest tests for routing documents to the language server of their workspace folder.
+ */
+
+const mockHandlers: Record<string, (event: any) => any> = {};
+const mockWorkspaceFolders: any[] = [];
+const mockServers: any[] = [];
+const mockMessages: string[] = [];
+const mockDocuments: any[] = [];
+let mockSettings: Record<string, any> = {};
+let mockDisposing: Promise<void> = Promise.resolve();
+let mockConnectionError: Error | undefined;
+
+jest.mock('vscode', () => {
+  class Uri {
+    constructor(public scheme: string, public path: string) {}
+    get fsPath() { return this.path; }
+    toString() { return `${this.scheme}://${this.path}`; }
+    static file(path: string) { return new Uri('file', path); }
+    static joinPath(uri: Uri, segment: string) {
+      return new Uri(uri.scheme, segment === '..' ? uri.path.replace(/\/[^/]*$/, '') || '/' : `${uri.path}/${segment}`);
+    }
+  }
+  const listen = (name: string) => (handler: (event: any) => any) => {
+    mockHandlers[name] = handler;
+    return { dispose: () => undefined };
+  };
+  return {
+    Uri,
+    StatusBarAlignment: { Left: 1 },
+    ThemeColor: class {},
+    window: {
+      createStatusBarItem: () => ({ show: () => undefined, hide: () => undefined, dispose: () => undefined }),
+      showInformationMessage: (message: string) => { mockMessages.push(message); return Promise.resolve(undefined); },
+      showWarningMessage: () => Promise.resolve(undefined),
+      showErrorMessage: (message: string) => { mockMessages.push(message); return Promise.resolve(undefined); },
+      onDidChangeActiveTextEditor: listen('activeEditor'),
+      activeTextEditor: undefined,
+    },
+    workspace: {
+      get workspaceFolders() { return mockWorkspaceFolders; },
+      get textDocuments() { return mockDocuments; },
+      fs: { isWritableFileSystem: () => true },
+      getWorkspaceFolder: (uri: Uri) => mockWorkspaceFolders
+        .filter(folder => uri.path === folder.uri.path || uri.path.startsWith(`${folder.uri.path}/`))
+        .sort((a, b) => b.uri.path.length - a.uri.path.length)[0],
+      getConfiguration: () => ({ get: (key: string, defaultValue: any) => (key in mockSettings ? mockSettings[key] : defaultValue) }),
+      onDidOpenTextDocument: listen('open'),
+      onDidCloseTextDocument: listen('close'),
+      onDidChangeWorkspaceFolders: listen('folders'),
+      onDidChangeConfiguration: listen('configuration'),
+    },
+  };
+}, { virtual: true });
+
+jest.mock('vscode-languageclient/node', () => ({}), { virtual: true });
+
+jest.mock('../lsp/jacServer', () => ({
+  JacServer: class {
+    disposed = false;
+    client = { name: 'client' };
+    constructor(readonly folder: any) { mockServers.push(this); }
+    get displayName() { return this.folder?.name ?? 'Jac Language Server'; }
+    onDidChangeState() { return { dispose: () => undefined }; }
+    async start() {}
+    async dispose() { await mockDisposing; this.disposed = true; }
+    getClient() { return this.client; }
+    getState() { return mockConnectionError ? 'crashed' : 'running'; }
+    getConnectionError() { return mockConnectionError; }
+  },
+  runServerAction: () => Promise.resolve(),
+}));
+
+import * as vscode from 'vscode';
+import { LspManager } from '../lsp/lsp_manager';
+
+const folder = (name: string, path: string, index: number) => ({ name, index, uri: vscode.Uri.file(path) });
+const jacDocument = (path: string) => ({ languageId: 'jac', uri: vscode.Uri.file(path) });
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('LspManager', () => {
+  const api = folder('api', '/work/api', 0);
+  const web = folder('web', '/work/web', 1);
+  const envManager = { resolveFolder: () => api } as any;
+
+  beforeEach(() => {
+    mockWorkspaceFolders.splice(0, mockWorkspaceFolders.length, api, web);
+    mockServers.splice(0, mockServers.length);
+    mockMessages.splice(0, mockMessages.length);
+    mockDocuments.splice(0, mockDocuments.length);
+    mockSettings = {};
+    mockDisposing = Promise.resolve();
+    mockConnectionError = undefined;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('starts a server per folder and routes documents to their folder', async () => {
+    const manager = new LspManager(envManager);
+    await manager.start();
+    expect(mockServers.map(server => server.folder.name)).toEqual(['api']);
+
+    mockHandlers.open(jacDocument('/work/web/app.jac'));
+    await flush();
+    expect(mockServers.map(server => server.folder.name)).toEqual(['api', 'web']);
+
+    expect(manager.getClient(vscode.Uri.file('/work/api/main.jac'))).toBe(mockServers[0].client);
+    expect(manager.getClient(vscode.Uri.file('/work/web/lib/util.jac'))).toBe(mockServers[1].client);
+    expect(manager.getClient(vscode.Uri.file('/elsewhere/other.jac'))).toBeUndefined();
+  });
+
+  test('tears down the server of a removed folder', async () => {
+    const manager = new LspManager(envManager);
+    await manager.start();
+    mockHandlers.open(jacDocument('/work/web/app.jac'));
+    await flush();
+
+    mockWorkspaceFolders.splice(1, 1);
+    await mockHandlers.folders({ added: [], removed: [web] });
+
+    expect(mockServers[1].disposed).toBe(true);
+    expect(mockServers[0].disposed).toBe(false);
+    expect(manager.getClient(vscode.Uri.file('/work/web/app.jac'))).toBeUndefined();
+    expect(manager.getClient(vscode.Uri.file('/work/api/main.jac'))).toBe(mockServers[0].client);
+  });
+
+  test('reports a failed connection to an external server instead of a start', async () => {
+    mockConnectionError = new Error('connect ECONNREFUSED 127.0.0.1:2087');
+    await new LspManager(envManager).start();
+    expect(mockMessages).toEqual([
+      'Could not connect to the external Jac language server: connect ECONNREFUSED 127.0.0.1:2087. Retrying in the background.',
+    ]);
+
+    mockConnectionError = undefined;
+    await new LspManager(envManager).start();
+    expect(mockMessages[1]).toBe('Jac Language Server started!');
+  });
+
+  test('starts again when a Jac document opens while the idle stop is still running', async () => {
+    mockSettings = { languageServerIdleTimeout: 1 };
+    const manager = new LspManager(envManager);
+    await manager.start();
+
+    jest.useFakeTimers();
+    let finishDisposing!: () => void;
+    mockDisposing = new Promise(resolve => { finishDisposing = resolve; });
+    mockHandlers.close(jacDocument('/work/api/closed.jac'));
+    jest.advanceTimersByTime(60 * 1000);
+    jest.useRealTimers();
+
+    const document = jacDocument('/work/api/main.jac');
+    mockDocuments.push(document);
+    mockHandlers.open(document);
+    finishDisposing();
+    await flush();
+
+    expect(mockServers[0].disposed).toBe(true);
+    expect(mockServers).toHaveLength(2);
+    expect(mockServers[1].disposed).toBe(false);
+    expect(manager.getClient(document.uri)).toBe(mockServers[1].client);
+  });
+});
@@ -0,0 +1,40 @@
+/*
+ * Jest tests for reading plugin versions from the environment probe and building pip commands.
+ */
+
+jest.mock('vscode', () => ({ TreeItem: class {} }), { virtual: true });
+jest.mock('../extension', () => ({ getLspManager: () => undefined }));
+
+import { parseProbeOutput } from '../utils/envDetection';
+import { buildPipArgs } from '../views/pluginsView';
+
+describe('pluginsView', () => {
+  test('reads jaclang, Python and plugin versions from the last line of the probe', () => {
+    const stdout = [
+      'warning: something on stdout first',
+      JSON.stringify({ jaclang: '0.8.1', python: '3.12.2', plugins: { byllm: '0.4.0', 'jac-splice': '1.0' }, site: '/env/lib/site-packages' }),
+      '',
+    ].join('\n');
+
+    expect(parseProbeOutput('/env/bin/jac', '/env/bin/python', stdout)).toEqual({
+      jacPath: '/env/bin/jac',
+      pythonPath: '/env/bin/python',
+      jacVersion: '0.8.1',
+      pythonVersion: '3.12.2',
+      plugins: { byllm: '0.4.0', 'jac-splice': '1.0' },
+      sitePackages: '/env/lib/site-packages',
+    });
+  });
+
+  test('rejects probes without jaclang or with unexpected output', () => {
+    expect(parseProbeOutput('/env/bin/jac', '/env/bin/python', JSON.stringify({ jaclang: null, python: '3.12.2' }))).toBeUndefined();
+    expect(parseProbeOutput('/env/bin/jac', '/env/bin/python', 'Traceback (most recent call last):')).toBeUndefined();
+    expect(parseProbeOutput('/env/bin/jac', '/env/bin/python', '')).toBeUndefined();
+  });
+
+  test('builds pip arguments for each action', () => {
+    expect(buildPipArgs('install', 'jac-streamlit')).toEqual(['install', 'jac-streamlit']);
+    expect(buildPipArgs('upgrade', 'byllm')).toEqual(['install', '--upgrade', 'byllm']);
+    expect(buildPipArgs('uninstall', 'jac-cloud')).toEqual(['uninstall', '-y', 'jac-cloud']);
+  });
+});
@@ -0,0 +1,65 @@
+/*
+ * Jest tests for jac.toml parsing and configured path substitution.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readProjectConfig, resolveConfiguredPath } from '../environment/projectConfig';
+
+describe('projectConfig', () => {
+  let tmpRoot: string;
+  let folder: any;
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'jac-project-'));
+    folder = { name: 'service', index: 0, uri: { fsPath: tmpRoot } };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  test('substitutes workspace folder, env vars and home', () => {
+    process.env.JAC_TEST_ENV_DIR = '/opt/envs';
+    const home = process.env.HOME || process.env.USERPROFILE || '';
+
+    expect(resolveConfiguredPath('${workspaceFolder}/.venv/bin/jac', folder)).toBe(`${tmpRoot}/.venv/bin/jac`);
+    expect(resolveConfiguredPath('${env:JAC_TEST_ENV_DIR}/jac/bin/jac', folder)).toBe('/opt/envs/jac/bin/jac');
+    expect(resolveConfiguredPath('~/venvs/jac/bin/jac', folder)).toBe(path.join(home, 'venvs/jac/bin/jac'));
+    expect(resolveConfiguredPath('.venv/bin/jac', folder)).toBe(path.join(tmpRoot, '.venv/bin/jac'));
+    expect(resolveConfiguredPath('jac', folder)).toBe('jac');
+
+    delete process.env.JAC_TEST_ENV_DIR;
+  });
+
+  test('reads interpreter, entry point and run args from jac.toml', async () => {
+    fs.writeFileSync(path.join(tmpRoot, 'jac.toml'), [
+      '[project]',
+      'name = "service"',
+      'entry-point = "src/main.jac"',
+      '',
+      '[environment]',
+      'interpreter = "${workspaceFolder}/.venv/bin/jac"',
+      '',
+      '[run]',
+      'args = ["--no-cache"]',
+    ].join('\n'));
+
+    const config = await readProjectConfig(folder);
+
+    expect(config).toEqual({
+      configPath: path.join(tmpRoot, 'jac.toml'),
+      interpreter: `${tmpRoot}/.venv/bin/jac`,
+      entryPoint: path.join(tmpRoot, 'src', 'main.jac'),
+      args: ['--no-cache'],
+    });
+  });
+
+  test('returns undefined without jac.toml and throws on invalid TOML', async () => {
+    await expect(readProjectConfig(folder)).resolves.toBeUndefined();
+
+    fs.writeFileSync(path.join(tmpRoot, 'jac.toml'), '[environment\ninterpreter = ');
+    await expect(readProjectConfig(folder)).rejects.toThrow();
+  });
+});
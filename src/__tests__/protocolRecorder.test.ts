@@ -0,0 +1,112 @@
+/*
+ * Jest tests for the LSP protocol recorder: message framing, latencies, rotation and export trimming.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageTap, ProtocolRecorder, readTrace, spawnRecordedServer, trimTrace } from '../lsp/protocolRecorder';
+
+function frame(message: object): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+}
+
+describe('protocolRecorder', () => {
+  let traceDir: string;
+
+  beforeEach(() => {
+    traceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jac-trace-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(traceDir, { recursive: true, force: true });
+  });
+
+  test('reports framed messages split across chunks and passes bytes through', async () => {
+    const seen: any[] = [];
+    const tap = new MessageTap(message => seen.push(message));
+    const output: Buffer[] = [];
+    tap.on('data', chunk => output.push(chunk));
+
+    const stream = frame({ jsonrpc: '2.0', id: 1, method: 'initialize' }) + frame({ jsonrpc: '2.0', method: 'initialized' });
+    tap.write(Buffer.from(stream.slice(0, 25)));
+    tap.write(Buffer.from(stream.slice(25)));
+    tap.end();
+    await new Promise(resolve => tap.on('end', resolve));
+
+    expect(seen.map(message => message.method)).toEqual(['initialize', 'initialized']);
+    expect(Buffer.concat(output).toString()).toBe(stream);
+  });
+
+  test('spawns the recorded server in the given working directory', async () => {
+    const cwd = fs.realpathSync(traceDir);
+    const script = [
+      "const body = JSON.stringify({ jsonrpc: '2.0', method: 'cwd', params: process.cwd() });",
+      "process.stdout.write('Content-Length: ' + Buffer.byteLength(body) + '\\r\\n\\r\\n' + body);",
+    ].join('\n');
+    const recorder = new ProtocolRecorder(path.join(traceDir, 'protocol'));
+    const outputChannel: any = { append: () => undefined, appendLine: () => undefined };
+
+    const { streams } = spawnRecordedServer(process.execPath, ['-e', script], recorder, outputChannel, 'api', cwd);
+    streams.reader.resume();
+    await new Promise(resolve => streams.reader.on('end', resolve));
+
+    const message = readTrace(path.join(traceDir, 'protocol')).find(entry => entry.method === 'cwd')!;
+    expect((message.message as any).params).toBe(cwd);
+  });
+
+  test('records request latency and method on the matching response', () => {
+    const recorder = new ProtocolRecorder(traceDir);
+    recorder.startSession('jac lsp', 1000);
+    recorder.record('send', { jsonrpc: '2.0', id: 7, method: 'textDocument/hover', params: {} }, 1000);
+    recorder.record('receive', { jsonrpc: '2.0', method: 'window/logMessage', params: {} }, 1100);
+    recorder.record('receive', { jsonrpc: '2.0', id: 7, result: null }, 1250);
+
+    const entries = readTrace(traceDir);
+    expect(entries.map(entry => entry.kind)).toEqual(['session', 'request', 'notification', 'response']);
+    expect(entries[3]).toMatchObject({ direction: 'receive', id: 7, method: 'textDocument/hover', latencyMs: 250 });
+  });
+
+  test('rotates the recording and reads it back oldest first', () => {
+    const recorder = new ProtocolRecorder(traceDir, 200, 2);
+    for (let i = 0; i < 12; i++) {
+      recorder.record('send', { jsonrpc: '2.0', method: `note/${i}` }, i);
+    }
+
+    const files = fs.readdirSync(traceDir).sort();
+    expect(files).toEqual(['lsp-trace.1.jsonl', 'lsp-trace.2.jsonl', 'lsp-trace.jsonl']);
+
+    // The oldest messages were rotated out; the rest come back in order
+    const indices = readTrace(traceDir, 2).map(entry => Number(entry.method!.split('/')[1]));
+    expect(indices[indices.length - 1]).toBe(11);
+    expect(indices).toEqual(indices.map((_, i) => indices[0] + i));
+  });
+
+  test('exports only the latest session with large payloads truncated', () => {
+    const trimmed = trimTrace([
+      { ts: 1, kind: 'session', command: 'jac lsp' },
+      { ts: 2, kind: 'notification', direction: 'send', method: 'old', message: {} },
+      { ts: 3, kind: 'session', command: 'jac lsp' },
+      { ts: 4, kind: 'notification', direction: 'send', method: 'big', message: { text: 'x'.repeat(100) } },
+    ], 50);
+
+    expect(trimmed.map(entry => entry.ts)).toEqual([3, 4]);
+    expect(trimmed[1].message).toMatchObject({ truncated: true });
+    expect((trimmed[1].message as any).preview).toHaveLength(50);
+  });
+
+  test('keeps the latest session of every server, one server after another', () => {
+    const trimmed = trimTrace([
+      { ts: 1, kind: 'session', command: 'jac lsp', server: 'api' },
+      { ts: 2, kind: 'session', command: 'jac lsp', server: 'web' },
+      { ts: 3, kind: 'notification', direction: 'send', method: 'api/1', server: 'api', message: {} },
+      { ts: 4, kind: 'notification', direction: 'send', method: 'web/old', server: 'web', message: {} },
+      { ts: 5, kind: 'session', command: 'jac lsp', server: 'web' },
+      { ts: 6, kind: 'notification', direction: 'send', method: 'api/2', server: 'api', message: {} },
+      { ts: 7, kind: 'notification', direction: 'send', method: 'web/new', server: 'web', message: {} },
+    ]);
+
+    expect(trimmed.map(entry => entry.ts)).toEqual([1, 3, 6, 5, 7]);
+  });
+});
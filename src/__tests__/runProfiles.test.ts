@@ -0,0 +1,61 @@
+/*
+ * Jest tests for resolving named run profiles.
+ */
+
+jest.mock('vscode', () => ({}), { virtual: true });
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseEnvFile, resolveRunProfile } from '../utils/runProfiles';
+
+describe('runProfiles', () => {
+  test('parses .env files', () => {
+    const env = parseEnvFile([
+      '# database',
+      'DB_HOST=localhost',
+      'export DB_PORT=5432 # default port',
+      'GREETING="hello # world"',
+      "TOKEN='abc'",
+      'not a variable',
+    ].join('\n'));
+
+    expect(env).toEqual({ DB_HOST: 'localhost', DB_PORT: '5432', GREETING: 'hello # world', TOKEN: 'abc' });
+  });
+
+  test('resolves paths against the workspace folder and lets env override the env file', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'jac-profile-'));
+    fs.writeFileSync(path.join(root, '.env'), 'MODE=file\nSECRET=s3cret\n');
+    const folder: any = { name: 'app', uri: { fsPath: root } };
+
+    const resolved = await resolveRunProfile(
+      { name: 'api', file: 'main.jac', command: 'serve', args: ['--port', '8080'], env: { MODE: 'dev' }, envFile: '.env', cwd: 'build' },
+      folder,
+      undefined
+    );
+
+    expect(resolved).toEqual({
+      name: 'api',
+      filePath: path.join(root, 'main.jac'),
+      command: 'serve',
+      args: ['--port', '8080'],
+      env: { MODE: 'dev', SECRET: 's3cret' },
+      cwd: path.join(root, 'build'),
+    });
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('defaults to jac run on the active file in the folder', async () => {
+    const folder: any = { name: 'app', uri: { fsPath: '/ws/app' } };
+    const resolved = await resolveRunProfile({ name: 'plain' }, folder, '/ws/app/tool.jac');
+
+    expect(resolved.filePath).toBe('/ws/app/tool.jac');
+    expect(resolved.command).toBe('run');
+    expect(resolved.cwd).toBe('/ws/app');
+  });
+
+  test('reports a missing env file', async () => {
+    await expect(resolveRunProfile({ name: 'broken', envFile: '/nonexistent/.env' }, undefined, '/a.jac'))
+      .rejects.toThrow('Cannot read env file /nonexistent/.env');
+  });
+});
@@ -0,0 +1,83 @@
+/*
+ * Jest tests for the helpers behind managed jac serve sessions.
+ */
+
+jest.mock('vscode', () => ({
+  TreeItem: class {},
+  Uri: { file: (fsPath: string) => ({ fsPath }) },
+  window: { createOutputChannel: () => ({ append: () => undefined, appendLine: () => undefined, dispose: () => undefined }) },
+  workspace: {
+    getWorkspaceFolder: () => undefined,
+    getConfiguration: () => ({ get: (_key: string, defaultValue: any) => defaultValue }),
+  },
+}), { virtual: true });
+
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { findFreePort, formatUptime, isPortInUseError, isWatchedSource, parseListeningPort, ServeSession } from '../views/serveSessionsView';
+
+describe('serveSessionsView', () => {
+  test('recognises port conflicts across platforms', () => {
+    expect(isPortInUseError('ERROR:    [Errno 98] error while attempting to bind on address (\'0.0.0.0\', 8000): address already in use')).toBe(true);
+    expect(isPortInUseError('OSError: [Errno 48] Address already in use')).toBe(true);
+    expect(isPortInUseError('Error: listen EADDRINUSE: address already in use :::8000')).toBe(true);
+    expect(isPortInUseError('INFO:     Application startup complete.')).toBe(false);
+  });
+
+  test('reads the port the server listens on', () => {
+    expect(parseListeningPort('INFO:     Uvicorn running on http://0.0.0.0:8123 (Press CTRL+C to quit)')).toBe(8123);
+    expect(parseListeningPort('Serving at http://localhost:9000/')).toBe(9000);
+    expect(parseListeningPort('INFO:     Started server process [4242]')).toBeUndefined();
+  });
+
+  test('restarts on project sources only', () => {
+    expect(isWatchedSource('/ws/app/main.jac')).toBe(true);
+    expect(isWatchedSource('/ws/lib/helpers.py')).toBe(true);
+    expect(isWatchedSource('/ws/app/.main.unsaved-4242-1.jac')).toBe(false);
+    expect(isWatchedSource('/ws/.venv/lib/python3.12/site-packages/jaclang/core.jac')).toBe(false);
+    expect(isWatchedSource('/ws/app/__jac_gen__/main.py')).toBe(false);
+  });
+
+  test('formats uptimes', () => {
+    expect(formatUptime(45 * 1000)).toBe('45s');
+    expect(formatUptime(12 * 60 * 1000)).toBe('12m');
+    expect(formatUptime((3 * 60 + 5) * 60 * 1000)).toBe('3h 5m');
+  });
+
+  test('skips ports that are listened on or taken by other sessions', async () => {
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const busy = (server.address() as net.AddressInfo).port;
+    try {
+      const port = await findFreePort(busy, new Set([busy + 1]));
+      expect(port).toBeGreaterThan(busy + 1);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  test('stays starting until the server reports listening', async () => {
+    // Stands in for jac serve: a failed start, then the listening line
+    const script = [
+      'console.error("Traceback (most recent call last):");',
+      'setTimeout(() => console.log("INFO: Uvicorn running on http://0.0.0.0:8123"), 300);',
+      'setTimeout(() => {}, 5000);',
+    ].join('');
+    const envManager = { getJacCommand: () => ({ command: process.execPath, args: ['-e', script] }) } as any;
+    const states: string[] = [];
+    const session: ServeSession = new ServeSession(1, path.join(os.tmpdir(), 'app.jac'), 8000, envManager, () => states.push(session.state), () => undefined);
+
+    session.start();
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(session.state).toBe('starting');
+    expect(session.startedAt).toBeUndefined();
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    expect(session.state).toBe('running');
+    expect(session.port).toBe(8123);
+
+    await session.stop();
+    expect(states[states.length - 1]).toBe('stopped');
+  });
+});
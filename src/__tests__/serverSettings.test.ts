@@ -0,0 +1,68 @@
+/*
+ * Jest tests for the settings forwarded to the Jac language server.
+ */
+
+let settings: Record<string, any> = {};
+
+jest.mock('vscode', () => ({
+  workspace: {
+    getConfiguration: () => ({
+      get: (key: string, defaultValue?: any) => (key in settings ? settings[key] : defaultValue),
+    }),
+  },
+  Uri: {
+    parse: (value: string) => ({ toString: () => value }),
+  },
+}), { virtual: true });
+
+jest.mock('vscode-languageclient/node', () => ({
+  DidChangeConfigurationNotification: { type: 'workspace/didChangeConfiguration' },
+}), { virtual: true });
+
+import { createConfigurationMiddleware, getServerSettings } from '../lsp/serverSettings';
+
+describe('serverSettings', () => {
+  beforeEach(() => {
+    settings = {};
+  });
+
+  test('uses defaults and replaces invalid values', () => {
+    expect(getServerSettings()).toEqual({
+      typeCheckMode: 'basic',
+      diagnosticsOn: 'onType',
+      exclude: [],
+      developerMode: false,
+    });
+
+    settings = {
+      'server.typeCheckMode': 'pedantic',
+      'server.diagnosticsOn': 'onSave',
+      'server.exclude': ['**/build/**', '', 3],
+      developerMode: true,
+    };
+    expect(getServerSettings()).toEqual({
+      typeCheckMode: 'basic',
+      diagnosticsOn: 'onSave',
+      exclude: ['**/build/**'],
+      developerMode: true,
+    });
+  });
+
+  test('answers configuration requests for the server section only', async () => {
+    settings = { 'server.typeCheckMode': 'strict' };
+    const next = jest.fn(async () => [{ tabSize: 4 }, null]);
+    const middleware = createConfigurationMiddleware();
+
+    const result = await middleware(
+      { items: [{ section: 'editor' }, { section: 'jaclang-extension.server', scopeUri: 'file:///work/app.jac' }] },
+      {} as any,
+      next
+    );
+
+    expect(next).toHaveBeenCalled();
+    expect(result).toEqual([
+      { tabSize: 4 },
+      { typeCheckMode: 'strict', diagnosticsOn: 'onType', exclude: [], developerMode: false },
+    ]);
+  });
+});
@@ -0,0 +1,34 @@
+/*
+ * Jest tests for the language server crash supervisor's backoff and crash window.
+ */
+
+import { CrashSupervisor } from '../lsp/supervisor';
+
+describe('CrashSupervisor', () => {
+  const options = { maxCrashes: 4, windowMs: 60000, initialDelayMs: 1000, maxDelayMs: 3000 };
+
+  test('backs off exponentially up to the maximum delay', () => {
+    const supervisor = new CrashSupervisor(options);
+
+    expect(supervisor.recordCrash(0)).toEqual({ restart: true, delayMs: 1000, crashCount: 1 });
+    expect(supervisor.recordCrash(1000)).toEqual({ restart: true, delayMs: 2000, crashCount: 2 });
+    expect(supervisor.recordCrash(2000)).toEqual({ restart: true, delayMs: 3000, crashCount: 3 });
+  });
+
+  test('gives up after too many crashes within the window', () => {
+    const supervisor = new CrashSupervisor(options);
+    [0, 1000, 2000].forEach(time => supervisor.recordCrash(time));
+
+    expect(supervisor.recordCrash(3000)).toEqual({ restart: false, delayMs: 0, crashCount: 4 });
+  });
+
+  test('forgets crashes that fall out of the window or after a reset', () => {
+    const supervisor = new CrashSupervisor(options);
+    [0, 1000, 2000].forEach(time => supervisor.recordCrash(time));
+
+    expect(supervisor.recordCrash(61500)).toEqual({ restart: true, delayMs: 2000, crashCount: 2 });
+
+    supervisor.reset();
+    expect(supervisor.recordCrash(62000).crashCount).toBe(1);
+  });
+});
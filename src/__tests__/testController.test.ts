@@ -0,0 +1,86 @@
+/*
+ * Jest tests for discovering Jac test blocks and reading `jac test` results.
+ * Discovery uses the real TextMate grammar.
+ */
+
+jest.mock('vscode', () => ({}), { virtual: true });
+
+import * as path from 'path';
+import { findOutcome, findTestBlocks, isProjectTestFile, parseTestOutput } from '../testing/testController';
+
+const GRAMMAR_PATH = path.join(process.cwd(), 'syntaxes', 'jac.tmLanguage.json');
+const WASM_PATH = path.join(process.cwd(), 'node_modules', 'vscode-oniguruma', 'release', 'onig.wasm');
+
+describe('testController', () => {
+  test('finds test blocks but not the word test in comments or strings', async () => {
+    const content = [
+      'test adds_numbers {',
+      '    assert 1 + 1 == 2;',
+      '}',
+      '# test commented_out {',
+      'with entry { print("test skipped {"); }',
+      'test {',
+      '    check True;',
+      '}',
+      'test "described test" {',
+      '}',
+    ].join('\n');
+
+    expect(await findTestBlocks(content, GRAMMAR_PATH, WASM_PATH)).toEqual([
+      { name: 'adds_numbers', label: 'adds_numbers', line: 0 },
+      { label: 'test at line 6', line: 5 },
+      { label: 'described test', line: 8 },
+    ]);
+  });
+
+  test('reads passes, failures and errors with their locations', () => {
+    const output = [
+      'test_adds_numbers (jaclang.runtimelib.test.JacTestCase) ... ok',
+      'test_divides (jaclang.runtimelib.test.JacTestCase) ... FAIL',
+      'test_loads (jaclang.runtimelib.test.JacTestCase) ... ERROR',
+      '',
+      '======================================================================',
+      'FAIL: test_divides (jaclang.runtimelib.test.JacTestCase)',
+      '----------------------------------------------------------------------',
+      'Traceback (most recent call last):',
+      '  File "/ws/app/math.jac", line 7, in test_divides',
+      'AssertionError: 3 != 2',
+      '',
+      '======================================================================',
+      'ERROR: test_loads (jaclang.runtimelib.test.JacTestCase)',
+      '----------------------------------------------------------------------',
+      'Traceback (most recent call last):',
+      '  File "/ws/app/math.jac", line 12, in test_loads',
+      '  File "/usr/lib/python3.12/json/__init__.py", line 293, in load',
+      'FileNotFoundError: data.json',
+      '',
+      '----------------------------------------------------------------------',
+      'Ran 3 tests in 0.004s',
+      '',
+      'FAILED (failures=1, errors=1)',
+    ].join('\n');
+
+    const outcomes = parseTestOutput(output);
+    expect(findOutcome(outcomes, { name: 'adds_numbers', label: 'adds_numbers', line: 0 })).toEqual({ name: 'test_adds_numbers', status: 'passed' });
+
+    const failed = findOutcome(outcomes, { name: 'divides', label: 'divides', line: 5 })!;
+    expect(failed.status).toBe('failed');
+    expect(failed.message).toContain('AssertionError: 3 != 2');
+    expect(failed.frames).toEqual([{ file: '/ws/app/math.jac', line: 7 }]);
+
+    const errored = findOutcome(outcomes, { name: 'loads', label: 'loads', line: 10 })!;
+    expect(errored.status).toBe('errored');
+    expect(errored.frames!.map(frame => frame.line)).toEqual([12, 293]);
+  });
+
+  test('has no outcome for unnamed tests', () => {
+    expect(findOutcome(parseTestOutput('test_x (Case) ... ok'), { label: 'test at line 1', line: 0 })).toBeUndefined();
+  });
+
+  test('leaves installed packages and unsaved buffer copies out of the project tests', () => {
+    expect(isProjectTestFile('/ws/app/tests/math.jac')).toBe(true);
+    expect(isProjectTestFile('/ws/app/.venv/lib/python3.12/site-packages/pkg/test_util.jac')).toBe(false);
+    expect(isProjectTestFile('C:\\ws\\app\\node_modules\\pkg\\spec.jac')).toBe(false);
+    expect(isProjectTestFile('/ws/app/.math.unsaved-42-1.jac')).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import type { EnvManager } from '../environment/manager';
+import { diagnoseEnvironmentDetection, validateJacExecutable, StrategyReport } from '../utils/envDetection';
+
+const EXTENSION_ID = 'jaseci-labs.jaclang-extension';
+
+// Workspace walks can probe hundreds of folders; cap rows so the report stays pasteable
+const MAX_REJECTED_ROWS = 50;
+
+/**
+ * Handler for the Show Environment Report command.
+ * Re-runs every detection strategy and opens the results as a markdown document.
+ */
+export async function showEnvironmentReportHandler(envManager: EnvManager): Promise<void> {
+    const workspaceRoot = envManager.resolveFolder()?.uri.fsPath || process.cwd();
+
+    const content = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Collecting Jac environment report...' },
+        () => buildEnvironmentReport(envManager, workspaceRoot)
+    );
+
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+    await vscode.window.showTextDocument(document, { preview: false });
+}
+
+/**
+ * Builds the markdown environment report: system details, the current
+ * selection with its validation result, and every detection strategy's probes.
+ */
+export async function buildEnvironmentReport(envManager: EnvManager, workspaceRoot: string): Promise<string> {
+    const jacPath = envManager.getJacPath();
+    const [isValid, info, strategies] = await Promise.all([
+        validateJacExecutable(jacPath),
+        envManager.getEnvironmentInfo(jacPath, true),
+        diagnoseEnvironmentDetection(workspaceRoot)
+    ]);
+
+    const lines: string[] = [
+        '# Jac Environment Report',
+        '',
+        `- Generated: ${new Date().toISOString()}`,
+        `- Extension: ${vscode.extensions.getExtension(EXTENSION_ID)?.packageJSON?.version ?? 'unknown'}`,
+        `- VS Code: ${vscode.version}`,
+        `- Platform: ${process.platform} ${process.arch}`,
+        `- Workspace root: \`${workspaceRoot}\``,
+        '',
+        '## Current Environment',
+        '',
+        `- Jac path: \`${jacPath}\``,
+        `- Selected by: ${envManager.getSelectionSource()}`,
+        `- Validation: ${isValid ? 'valid (responds to `jac --version`)' : 'INVALID (does not respond to `jac --version`)'}`,
+        `- Python: ${info?.pythonPath ? `\`${info.pythonPath}\`` : 'unknown'}${info?.pythonVersion ? ` (${info.pythonVersion})` : ''}`,
+        `- jaclang: ${info?.jacVersion ?? 'unknown'}`,
+        `- Plugins: ${info && Object.keys(info.plugins).length > 0
+            ? Object.entries(info.plugins).map(([name, version]) => `${name} ${version}`).join(', ')
+            : 'none detected'}`,
+        '',
+        '## Detection Strategies',
+        '',
+        '| Strategy | Time | Found |',
+        '| --- | ---: | ---: |',
+        ...strategies.map(strategy => `| ${strategy.name} | ${strategy.durationMs} ms | ${strategy.found.length} |`),
+        ''
+    ];
+
+    for (const strategy of strategies) {
+        lines.push(...formatStrategy(strategy));
+    }
+
+    return lines.join('\n');
+}
+
+function formatStrategy(strategy: StrategyReport): string[] {
+    const lines = [`### ${strategy.name} (${strategy.durationMs} ms)`, ''];
+    if (strategy.error) {
+        lines.push(`Strategy failed: ${strategy.error}`, '');
+    }
+    if (strategy.probes.length === 0) {
+        lines.push('No paths probed.', '');
+        return lines;
+    }
+
+    const accepted = strategy.probes.filter(probe => probe.accepted);
+    const rejected = strategy.probes.filter(probe => !probe.accepted);
+    const shownRejected = rejected.slice(0, MAX_REJECTED_ROWS);
+
+    lines.push('| Path | Result | Reason |', '| --- | --- | --- |');
+    for (const probe of [...accepted, ...shownRejected]) {
+        lines.push(`| \`${escapeCell(probe.path)}\` | ${probe.accepted ? 'found' : 'rejected'} | ${escapeCell(probe.reason)} |`);
+    }
+    if (rejected.length > shownRejected.length) {
+        lines.push(`| ... | | ${rejected.length - shownRejected.length} more rejected paths omitted |`);
+    }
+    lines.push('');
+    return lines;
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|');
+}
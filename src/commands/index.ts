@@ -1,19 +1,72 @@
 import * as vscode from 'vscode';
-import { runJacCommandForCurrentFile } from '../utils';
+import { runJacCommandForCurrentFile, runJacProfile } from '../utils';
 import { COMMANDS } from '../constants';
 import { getLspManager } from '../extension';
 import { EnvManager } from '../environment/manager';
 import { inspectTokenScopesHandler } from './inspectTokenScopes';
+import { showEnvironmentReportHandler } from './environmentReport';
+import { getCommandTemplate } from '../utils/commandWrapper';
+import { RECORD_PROTOCOL_SETTING } from '../lsp/protocolRecorder';
+import { showProtocolTrace, exportProtocolTrace } from '../webview/traceViewer';
+import { RunProfileSelector, resolveRunProfile } from '../utils/runProfiles';
+import { JacRepl } from '../utils/jacRepl';
+import { registerBufferLinks } from '../utils/bufferRunner';
 
 export function registerAllCommands(context: vscode.ExtensionContext, envManager: EnvManager) {
+    const runProfiles = new RunProfileSelector(context, envManager);
+    const repl = new JacRepl(envManager);
+    context.subscriptions.push(runProfiles, repl);
+    registerBufferLinks(context);
     context.subscriptions.push(
         vscode.commands.registerCommand(COMMANDS.SELECT_ENV, () => {
             envManager.promptEnvironmentSelection();
         })
     );
     context.subscriptions.push(
-        vscode.commands.registerCommand(COMMANDS.RUN_FILE, () => {
-            runJacCommandForCurrentFile('run', envManager);
+        vscode.commands.registerCommand(COMMANDS.INSTALL_JAC, async () => {
+            await envManager.installJacEnvironment();
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.ENV_REPORT, async () => {
+            await showEnvironmentReportHandler(envManager);
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.RUN_FILE, async () => {
+            const document = vscode.window.activeTextEditor?.document;
+            const profile = runProfiles.getActiveProfile(document?.uri);
+            if (!profile) {
+                runJacCommandForCurrentFile('run', envManager);
+                return;
+            }
+
+            const activeFile = document?.languageId === 'jac' && document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+            try {
+                runJacProfile(await resolveRunProfile(profile, envManager.resolveFolder(document?.uri), activeFile), envManager);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to run profile "${profile.name}": ${error.message || error}`);
+            }
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.SELECT_RUN_PROFILE, async () => {
+            await runProfiles.pickProfile();
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.START_REPL, () => {
+            repl.show();
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.SEND_TO_REPL, () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'jac') {
+                vscode.window.showErrorMessage('Please open a Jac file to send code to the REPL.');
+                return;
+            }
+            repl.sendSelection(editor);
         })
     );
     context.subscriptions.push(
@@ -24,6 +77,11 @@ export function registerAllCommands(context: vscode.ExtensionContext, envManager
                 return;
             }
 
+            // debugpy launches on the host, so a container or remote command template cannot apply here
+            if (getCommandTemplate(vscode.workspace.getWorkspaceFolder(editor.document.uri))) {
+                vscode.window.showWarningMessage('Debugging runs Jac on the host; the jaclang-extension.commandTemplate setting is not applied.');
+            }
+
             // Open the visual debugger webview
             await vscode.commands.executeCommand(COMMANDS.VISUALIZE);
 
@@ -34,20 +92,15 @@ export function registerAllCommands(context: vscode.ExtensionContext, envManager
                     type: 'debugpy',
                     request: 'launch',
                     name: 'Jac: Debug Current File',
-                    python: envManager.getPythonPath(),
-                    program: envManager.getJacPath(),
-                    args: ['run', editor.document.uri.fsPath],
+                    python: envManager.getPythonPath(editor.document.uri),
+                    program: envManager.getJacPath(editor.document.uri),
+                    args: ['run', editor.document.uri.fsPath, ...(envManager.getProjectConfig(editor.document.uri)?.args ?? [])],
                     console: 'integratedTerminal',
                     justMyCode: true
                 }
             );
         })
     );
-    context.subscriptions.push(
-        vscode.commands.registerCommand(COMMANDS.SERVE_FILE, () => {
-            runJacCommandForCurrentFile('serve', envManager);
-        })
-    );
     context.subscriptions.push(
         vscode.commands.registerCommand(COMMANDS.GET_JAC_PATH, () => {
             // Use envManager to get the selected jac path
@@ -84,6 +137,46 @@ export function registerAllCommands(context: vscode.ExtensionContext, envManager
             }
         })
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.SERVER_ACTIONS, async () => {
+            const lspManager = getLspManager();
+            if (lspManager) {
+                await lspManager.showActions();
+            } else {
+                vscode.window.showErrorMessage('Language Server not available.');
+            }
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.TOGGLE_PROTOCOL_RECORDING, async () => {
+            const config = vscode.workspace.getConfiguration('jaclang-extension');
+            const enabled = !config.get<boolean>(RECORD_PROTOCOL_SETTING, false);
+            await config.update(RECORD_PROTOCOL_SETTING, enabled, vscode.ConfigurationTarget.Global);
+
+            // The recorder taps the server's stdio, so it only takes effect on a fresh server process
+            const lspManager = getLspManager();
+            if (lspManager) {
+                try {
+                    vscode.window.showInformationMessage(
+                        `Protocol recording ${enabled ? 'enabled' : 'disabled'}. Restarting Jac Language Server...`
+                    );
+                    await lspManager.restart();
+                } catch (error: any) {
+                    vscode.window.showErrorMessage(`Failed to restart Jac Language Server: ${error.message || error}`);
+                }
+            }
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.SHOW_PROTOCOL_TRACE, () => {
+            showProtocolTrace(context);
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.EXPORT_PROTOCOL_TRACE, async () => {
+            await exportProtocolTrace(context);
+        })
+    );
 
     // Inspect Token Scopes command - dumps all TextMate token scopes for the current Jac file
     context.subscriptions.push(
@@ -1,14 +1,41 @@
 export const TERMINAL_NAME = "Jac Terminal";
 
+// Oldest jaclang release whose `jac lsp` this extension is tested against
+export const MIN_JACLANG_VERSION = '0.8.0';
+
+// Jac plugins reported alongside the jaclang version
+export const JAC_PLUGINS = ['jac-cloud', 'byllm', 'jac-client', 'jac-streamlit'];
+
 export const COMMANDS = {
     RUN_FILE: 'jaclang-extension.runCurrentFile',
     SERVE_FILE: 'jaclang-extension.serveCurrentFile',
+    SERVE_STOP: 'jaclang-extension.stopServeSession',
+    SERVE_RESTART: 'jaclang-extension.restartServeSession',
+    SERVE_REMOVE: 'jaclang-extension.removeServeSession',
+    SERVE_OPEN_BROWSER: 'jaclang-extension.openServeSessionInBrowser',
+    SERVE_SHOW_LOGS: 'jaclang-extension.showServeSessionLogs',
     DEBUG_FILE: 'jaclang-extension.debugCurrentFile',
+    SELECT_RUN_PROFILE: 'jaclang-extension.selectRunProfile',
+    START_REPL: 'jaclang-extension.startRepl',
+    SEND_TO_REPL: 'jaclang-extension.sendSelectionToRepl',
     SELECT_ENV: 'jaclang-extension.selectEnv',
+    INSTALL_JAC: 'jaclang-extension.installJac',
+    ENV_REPORT: 'jaclang-extension.showEnvironmentReport',
     TOGGLE_DEV_MODE: 'jaclang-extension.toggleDeveloperMode',
     RESTART_LSP: 'jaclang-extension.restartLanguageServer',
+    SERVER_ACTIONS: 'jaclang-extension.showServerActions',
+    TOGGLE_PROTOCOL_RECORDING: 'jaclang-extension.toggleProtocolRecording',
+    SHOW_PROTOCOL_TRACE: 'jaclang-extension.showProtocolTrace',
+    EXPORT_PROTOCOL_TRACE: 'jaclang-extension.exportProtocolTrace',
     GET_JAC_PATH: 'extension.jaclang-extension.getJacPath',
     GET_PYTHON_PATH: 'extension.jaclang-extension.getPythonPath',
     VISUALIZE: 'jaclang-extension.visualizeGraph',
     INSPECT_SCOPES: 'jaclang-extension.inspectTokenScopes',
+    REFRESH_PLUGINS: 'jaclang-extension.refreshPlugins',
+    INSTALL_PLUGIN: 'jaclang-extension.installPlugin',
+    UPGRADE_PLUGIN: 'jaclang-extension.upgradePlugin',
+    UNINSTALL_PLUGIN: 'jaclang-extension.uninstallPlugin',
+    SHOW_COMPILED_PYTHON: 'jaclang-extension.showCompiledPython',
+    INSPECT_COMPILER: 'jaclang-extension.inspectCompiler',
+    REFRESH_INSPECTOR: 'jaclang-extension.refreshCompilerInspector',
 };
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { findPythonInterpreters } from '../utils/envDetection';
+import { runPip } from '../utils/pip';
+import { runProcess } from '../utils/process';
+
+const VENV_DIR_NAME = '.venv';
+
+/**
+ * Where pip fetches jaclang from. Local wheel directories and custom
+ * indexes let the installer work behind firewalls or fully offline.
+ */
+type PackageSource =
+    | { kind: 'pypi' }
+    | { kind: 'wheels'; directory: string }
+    | { kind: 'index'; url: string };
+
+/**
+ * Guided installer: picks a base Python, creates `.venv` in the workspace folder
+ * and installs jaclang into it, streaming progress to the "Jac Installer" channel.
+ * @param folder The workspace folder to create the environment in.
+ * @returns The path of the installed Jac executable, or undefined if cancelled.
+ * @throws Error when venv creation or the pip install fails.
+ */
+export async function installJac(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+    const basePython = await pickBasePython();
+    if (!basePython) return undefined;
+
+    const source = await pickPackageSource();
+    if (!source) return undefined;
+
+    const venvPath = path.join(folder.uri.fsPath, VENV_DIR_NAME);
+    const binDir = process.platform === 'win32' ? 'Scripts' : 'bin';
+    const venvPython = path.join(venvPath, binDir, process.platform === 'win32' ? 'python.exe' : 'python');
+    const jacPath = path.join(venvPath, binDir, process.platform === 'win32' ? 'jac.exe' : 'jac');
+
+    const outputChannel = getInstallerChannel();
+    outputChannel.show(true);
+    outputChannel.appendLine(`Installing jaclang into ${venvPath}`);
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Installing Jac' },
+        async (progress) => {
+            if (fs.existsSync(venvPython)) {
+                outputChannel.appendLine(`Reusing existing virtual environment at ${venvPath}`);
+            } else {
+                progress.report({ message: `Creating ${VENV_DIR_NAME}...` });
+                await runProcess(basePython, ['-m', 'venv', venvPath], outputChannel, { cwd: folder.uri.fsPath });
+            }
+
+            progress.report({ message: 'Installing jaclang...' });
+            await runPip(venvPython, ['install', ...getSourceArgs(source), 'jaclang'], outputChannel);
+        }
+    );
+
+    outputChannel.appendLine('jaclang installed successfully.');
+    return jacPath;
+}
+
+let installerChannel: vscode.OutputChannel | undefined;
+
+function getInstallerChannel(): vscode.OutputChannel {
+    if (!installerChannel) {
+        installerChannel = vscode.window.createOutputChannel('Jac Installer');
+    }
+    return installerChannel;
+}
+
+function getSourceArgs(source: PackageSource): string[] {
+    switch (source.kind) {
+        case 'wheels':
+            return ['--no-index', '--find-links', source.directory];
+        case 'index':
+            return ['--index-url', source.url];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Lets the user choose the interpreter the new environment is created from.
+ */
+async function pickBasePython(): Promise<string | undefined> {
+    const interpreters = await findPythonInterpreters();
+    const items: Array<vscode.QuickPickItem & { pythonPath?: string }> = interpreters.map(interpreter => ({
+        label: `Python ${interpreter.version}`,
+        description: interpreter.path,
+        pythonPath: interpreter.path
+    }));
+    items.push({ label: '$(folder-opened) Browse...', description: 'Select a Python interpreter with the file picker' });
+
+    const choice = await vscode.window.showQuickPick(items, {
+        placeHolder: interpreters.length > 0
+            ? 'Select the base Python for the new Jac environment'
+            : 'No Python interpreter found on PATH - browse for one',
+        ignoreFocusOut: true
+    });
+    if (!choice) return undefined;
+    if (choice.pythonPath) return choice.pythonPath;
+
+    const fileUri = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        openLabel: 'Select Python Interpreter',
+        title: 'Select Python Interpreter'
+    });
+    return fileUri?.[0]?.fsPath;
+}
+
+/**
+ * Lets the user choose between PyPI, a local wheel directory and a custom index URL.
+ */
+async function pickPackageSource(): Promise<PackageSource | undefined> {
+    const choice = await vscode.window.showQuickPick([
+        { label: 'PyPI', description: 'Install the latest jaclang from pypi.org', source: 'pypi' as const },
+        { label: 'Local wheel directory...', description: 'Install offline from downloaded wheels', source: 'wheels' as const },
+        { label: 'Custom index URL...', description: 'Install from a private or mirrored package index', source: 'index' as const }
+    ], { placeHolder: 'Where should jaclang be installed from?', ignoreFocusOut: true });
+
+    if (!choice) return undefined;
+
+    if (choice.source === 'wheels') {
+        const folderUri = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Use Wheel Directory',
+            title: 'Select the directory containing jaclang wheels'
+        });
+        const directory = folderUri?.[0]?.fsPath;
+        return directory ? { kind: 'wheels', directory } : undefined;
+    }
+
+    if (choice.source === 'index') {
+        const url = await vscode.window.showInputBox({
+            prompt: 'Enter the package index URL',
+            placeHolder: 'https://pypi.example.com/simple',
+            ignoreFocusOut: true,
+            validateInput: (value) => /^https?:\/\/\S+$/.test(value.trim()) ? null : 'Please enter an http(s) URL'
+        });
+        return url ? { kind: 'index', url: url.trim() } : undefined;
+    }
+
+    return { kind: 'pypi' };
+}
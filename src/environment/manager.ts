@@ -1,32 +1,105 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { findPythonEnvsWithJac, validateJacExecutable } from '../utils/envDetection';
+import {
+    findPythonEnvsWithJac,
+    identifyEnvironmentTool,
+    validateJacExecutable,
+    probeJacEnvironment,
+    compareVersions,
+    EnvironmentTool,
+    JacEnvironmentInfo
+} from '../utils/envDetection';
+import { runPip } from '../utils/pip';
+import { installJac } from './installer';
+import { EnvWatcher, JacVersionChange } from './watcher';
+import { getPythonEnvironmentsApi, getActiveInterpreterJac } from '../utils/pythonExtension';
+import { JacProjectConfig, PROJECT_CONFIG_FILE, readProjectConfig, resolveConfiguredPath } from './projectConfig';
+import { buildJacInvocation, JacInvocation, COMMAND_TEMPLATE_SETTING, PATH_MAPPINGS_SETTING } from '../utils/commandWrapper';
+import { MIN_JACLANG_VERSION } from '../constants';
 import { getLspManager, createAndStartLsp } from '../extension';
 
+// Workspace-wide default selection, used for folders without their own selection
+const DEFAULT_ENV_KEY = 'jacEnvPath';
+// Set once the default of older versions, shared by every window, was copied into the workspace
+const LEGACY_DEFAULT_MIGRATED_KEY = 'jacEnvPathMigrated';
+// Per-workspace-folder selections, keyed by folder URI
+const FOLDER_ENVS_KEY = 'jacEnvPaths';
+// Setting that makes Jac use the interpreter selected in the Python extension
+const FOLLOW_PYTHON_SETTING = 'followPythonInterpreter';
+// Explicit Jac executable setting, which overrides any interactive selection
+const JAC_PATH_SETTING = 'jacPath';
+
 export class EnvManager {
     private context: vscode.ExtensionContext;
     private statusBar: vscode.StatusBarItem;
     private jacPath: string | undefined;
+    private folderEnvs: Record<string, string> = {};
+    // Jac executables of the Python extension's selected interpreters, keyed by folder URI ('' without a folder)
+    private followedEnvs: Record<string, string | undefined> = {};
+    // Parsed jac.toml of each workspace folder, keyed by folder URI
+    private projectConfigs: Record<string, JacProjectConfig | undefined> = {};
+    private activeFolder: vscode.WorkspaceFolder | undefined;
+    private envInfo = new Map<string, JacEnvironmentInfo>();
+    private pendingProbes = new Set<string>();
+    private watcher: EnvWatcher;
+    private lastEffectivePath: string | undefined;
+    // Set while a selection turns off follow mode, since storing the selection restarts the server itself
+    private endingFollowMode = false;
+    private readonly environmentChanged = new vscode.EventEmitter<string>();
+    /** Fires with the effective Jac path when it changes or its installation is modified. */
+    readonly onDidChangeEnvironment = this.environmentChanged.event;
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
         this.statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
         this.statusBar.command = 'jaclang-extension.selectEnv';
-        context.subscriptions.push(this.statusBar);
+        this.watcher = new EnvWatcher();
+        context.subscriptions.push(
+            this.statusBar,
+            this.watcher,
+            this.environmentChanged,
+            this.watcher.onDidRemoveEnvironment(jacPath => this.handleEnvironmentRemoved(jacPath)),
+            this.watcher.onDidChangeVersion(change => this.handleVersionChanged(change))
+        );
     }
 
 
     async init() {
-        // TODO: workspaceState
-        this.jacPath = this.context.globalState.get<string>('jacEnvPath');
+        this.jacPath = await this.loadDefaultSelection();
+        this.folderEnvs = { ...(this.context.workspaceState.get<Record<string, string>>(FOLDER_ENVS_KEY) || {}) };
+        this.activeFolder = this.resolveFolder();
+
+        // Keep the active folder in sync with the focused editor
+        this.context.subscriptions.push(
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                const folder = editor ? vscode.workspace.getWorkspaceFolder(editor.document.uri) : undefined;
+                if (folder && folder.uri.toString() !== this.activeFolder?.uri.toString()) {
+                    this.activeFolder = folder;
+                    this.updateStatusBar();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(event => this.handleFoldersChanged(event)),
+            vscode.workspace.onDidChangeConfiguration(async event => {
+                if (event.affectsConfiguration(`jaclang-extension.${JAC_PATH_SETTING}`)) {
+                    await this.handleConfiguredPathChanged();
+                } else if (event.affectsConfiguration(`jaclang-extension.${COMMAND_TEMPLATE_SETTING}`)
+                    || event.affectsConfiguration(`jaclang-extension.${PATH_MAPPINGS_SETTING}`)) {
+                    await this.restartLanguageServer();
+                }
+            })
+        );
+        this.watchProjectConfigs();
 
         // Always show status bar immediately, even before environment detection
         this.updateStatusBar();
 
+        await this.loadProjectConfigs();
+        await this.setupPythonInterpreterFollowing();
         await this.validateAndClearIfInvalid();  // Validate and clear if invalid
+        await this.warnIfConfiguredPathInvalid();
 
-        if (!this.jacPath) {
+        if (!this.hasSelection()) {
             // Don't await - let it run in background so status bar is immediately clickable
             this.showEnvironmentPrompt();
         }
@@ -34,8 +107,370 @@ export class EnvManager {
         this.updateStatusBar();
     }
 
+    /**
+     * Resolves the workspace folder a resource belongs to, falling back to the
+     * active editor's folder, the last active folder, or the only folder open.
+     */
+    resolveFolder(resource?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+        const uri = resource ?? vscode.window.activeTextEditor?.document.uri;
+        const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+        if (folder) return folder;
+        if (!resource && this.activeFolder) return this.activeFolder;
+
+        const folders = vscode.workspace.workspaceFolders;
+        return folders?.length === 1 ? folders[0] : undefined;
+    }
+
+    getActiveFolder(): vscode.WorkspaceFolder | undefined {
+        return this.activeFolder;
+    }
+
+    /**
+     * True when the given (or active) folder has a Jac environment, either its own or the window default.
+     */
+    hasSelection(resource?: vscode.Uri): boolean {
+        return !!this.getSelectedPath(this.resolveFolder(resource));
+    }
+
+    /**
+     * Returns the jac.toml settings of the folder owning `resource`, or of the active document's folder.
+     */
+    getProjectConfig(resource?: vscode.Uri): JacProjectConfig | undefined {
+        const folder = this.resolveFolder(resource);
+        return folder ? this.projectConfigs[folder.uri.toString()] : undefined;
+    }
+
+    /**
+     * Describes where the effective Jac path for a resource comes from, for diagnostics.
+     */
+    getSelectionSource(resource?: vscode.Uri): string {
+        const folder = this.resolveFolder(resource);
+        if (this.getSettingPath(folder)) {
+            return `the jaclang-extension.${JAC_PATH_SETTING} setting`;
+        }
+        if (folder && this.projectConfigs[folder.uri.toString()]?.interpreter) {
+            return `${PROJECT_CONFIG_FILE} in ${folder.name}`;
+        }
+        if (this.isFollowingPythonInterpreter(folder) && this.getFollowedPath(folder)) {
+            return "the Python extension's selected interpreter";
+        }
+        if (folder && this.folderEnvs[folder.uri.toString()]) {
+            return `workspace folder selection (${folder.name})`;
+        }
+        if (this.jacPath) {
+            return 'window default selection';
+        }
+        return 'fallback to jac on PATH (nothing selected)';
+    }
+
+    private getSelectedPath(folder: vscode.WorkspaceFolder | undefined): string | undefined {
+        // Configuration in settings or jac.toml wins over interactive selections
+        const configured = this.getConfiguredPath(folder);
+        if (configured) return configured;
+
+        if (this.isFollowingPythonInterpreter(folder)) {
+            const followed = this.getFollowedPath(folder);
+            if (followed) return followed;
+        }
+        if (folder) {
+            const folderPath = this.folderEnvs[folder.uri.toString()];
+            if (folderPath) return folderPath;
+        }
+        return this.jacPath;
+    }
+
+    private getSettingPath(folder: vscode.WorkspaceFolder | undefined): string | undefined {
+        const value = vscode.workspace.getConfiguration('jaclang-extension', folder?.uri).get<string>(JAC_PATH_SETTING, '');
+        return value && value.trim() ? resolveConfiguredPath(value, folder) : undefined;
+    }
+
+    // The jacPath setting takes precedence over jac.toml's [environment] interpreter
+    private getConfiguredPath(folder: vscode.WorkspaceFolder | undefined): string | undefined {
+        return this.getSettingPath(folder) ?? (folder ? this.projectConfigs[folder.uri.toString()]?.interpreter : undefined);
+    }
+
+    private async loadProjectConfigs(): Promise<void> {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            await this.loadProjectConfig(folder);
+        }
+    }
+
+    // Re-reads a folder's jac.toml; returns true if the interpreter it names changed
+    private async loadProjectConfig(folder: vscode.WorkspaceFolder): Promise<boolean> {
+        const key = folder.uri.toString();
+        const previous = this.projectConfigs[key]?.interpreter;
+        try {
+            this.projectConfigs[key] = await readProjectConfig(folder);
+        } catch (error: any) {
+            this.projectConfigs[key] = undefined;
+            vscode.window.showErrorMessage(`Invalid ${PROJECT_CONFIG_FILE} in ${folder.name}: ${error.message || error}`);
+        }
+        return previous !== this.projectConfigs[key]?.interpreter;
+    }
+
+    private watchProjectConfigs(): void {
+        const configWatcher = vscode.workspace.createFileSystemWatcher(`**/${PROJECT_CONFIG_FILE}`);
+        const reload = async (uri: vscode.Uri) => {
+            const folder = vscode.workspace.getWorkspaceFolder(uri);
+            // Only the jac.toml at the folder root configures the environment
+            if (!folder || path.dirname(uri.fsPath) !== folder.uri.fsPath) return;
+            if (await this.loadProjectConfig(folder)) {
+                await this.handleConfiguredPathChanged();
+            }
+        };
+        this.context.subscriptions.push(
+            configWatcher,
+            configWatcher.onDidCreate(reload),
+            configWatcher.onDidChange(reload),
+            configWatcher.onDidDelete(reload)
+        );
+    }
+
+    private async handleConfiguredPathChanged(): Promise<void> {
+        this.updateStatusBar();
+        this.syncWatchers();
+        await this.warnIfConfiguredPathInvalid();
+        await this.restartLanguageServer();
+    }
+
+    // Configured paths are never cleared automatically, so point the user at the source instead
+    private async warnIfConfiguredPathInvalid(): Promise<void> {
+        const folder = this.resolveFolder();
+        const configured = this.getConfiguredPath(folder);
+        if (configured && !(await validateJacExecutable(configured))) {
+            vscode.window.showWarningMessage(
+                `The Jac executable configured by ${this.getSelectionSource()} is not valid: ${configured}`
+            );
+        }
+    }
+
+    // A workspace-wide interpreter change (no folder) applies to folders without their own
+    private getFollowedPath(folder: vscode.WorkspaceFolder | undefined): string | undefined {
+        return (folder && this.followedEnvs[folder.uri.toString()]) || this.followedEnvs[''];
+    }
+
+    private isFollowingPythonInterpreter(folder: vscode.WorkspaceFolder | undefined): boolean {
+        return vscode.workspace.getConfiguration('jaclang-extension', folder?.uri).get<boolean>(FOLLOW_PYTHON_SETTING, false);
+    }
+
+    private async setFollowPythonInterpreter(enabled: boolean, folder: vscode.WorkspaceFolder | undefined): Promise<void> {
+        const target = folder
+            ? vscode.ConfigurationTarget.WorkspaceFolder
+            : (vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global);
+        await vscode.workspace.getConfiguration('jaclang-extension', folder?.uri).update(FOLLOW_PYTHON_SETTING, enabled, target);
+    }
+
+    /**
+     * Tracks the interpreter selected in the Python extension, so folders in
+     * "follow" mode switch Jac environments together with Python.
+     */
+    private async setupPythonInterpreterFollowing(): Promise<void> {
+        const environments = await getPythonEnvironmentsApi();
+        if (!environments) return;
+
+        this.context.subscriptions.push(
+            environments.onDidChangeActiveEnvironmentPath(event => this.handleInterpreterChanged(event.resource)),
+            vscode.workspace.onDidChangeConfiguration(async event => {
+                if (!event.affectsConfiguration(`jaclang-extension.${FOLLOW_PYTHON_SETTING}`)) return;
+                const restart = !this.endingFollowMode;
+                this.endingFollowMode = false;
+                for (const folder of vscode.workspace.workspaceFolders ?? [undefined]) {
+                    await this.refreshFollowedInterpreter(folder);
+                }
+                this.updateStatusBar();
+                this.syncWatchers();
+                if (restart) {
+                    await this.restartLanguageServer();
+                }
+            })
+        );
+
+        for (const folder of vscode.workspace.workspaceFolders ?? [undefined]) {
+            await this.refreshFollowedInterpreter(folder);
+        }
+    }
+
+    // Re-reads the Python extension's interpreter for a folder; returns true if its Jac executable changed
+    private async refreshFollowedInterpreter(folder: vscode.WorkspaceFolder | undefined): Promise<boolean> {
+        const key = folder?.uri.toString() ?? '';
+        const previous = this.followedEnvs[key];
+        const active = await getActiveInterpreterJac(folder?.uri);
+        this.followedEnvs[key] = active?.jacPath;
+
+        if (active && !active.jacPath && this.isFollowingPythonInterpreter(folder)) {
+            vscode.window.showWarningMessage(
+                `The interpreter selected in the Python extension has no Jac installed: ${this.formatPathForDisplay(active.pythonPath)}`
+            );
+        }
+        return previous !== this.followedEnvs[key];
+    }
+
+    private async handleInterpreterChanged(folder: vscode.WorkspaceFolder | undefined): Promise<void> {
+        if (!this.isFollowingPythonInterpreter(folder)) return;
+        if (!(await this.refreshFollowedInterpreter(folder))) return;
+
+        this.updateStatusBar();
+        this.syncWatchers();
+        if (this.getFollowedPath(folder)) {
+            await this.restartLanguageServer();
+        }
+    }
+
+    private async handleFoldersChanged(event: vscode.WorkspaceFoldersChangeEvent) {
+        let changed = false;
+        for (const folder of event.removed) {
+            const key = folder.uri.toString();
+            if (key in this.folderEnvs) {
+                delete this.folderEnvs[key];
+                changed = true;
+            }
+            delete this.projectConfigs[key];
+            delete this.followedEnvs[key];
+            if (this.activeFolder?.uri.toString() === key) {
+                this.activeFolder = undefined;
+            }
+        }
+        for (const folder of event.added) {
+            await this.loadProjectConfig(folder);
+        }
+        if (changed) {
+            await this.context.workspaceState.update(FOLDER_ENVS_KEY, this.folderEnvs);
+        }
+        this.activeFolder = this.activeFolder ?? this.resolveFolder();
+        this.updateStatusBar();
+        this.syncWatchers();
+    }
+
+    /**
+     * Stores the selection for a folder, and as the workspace default so folders
+     * without their own selection pick up the most recent choice. Neither is shared
+     * with other windows.
+     */
+    private async storeSelection(jacPath: string, folder: vscode.WorkspaceFolder | undefined): Promise<void> {
+        // An explicit choice ends following the Python extension's interpreter
+        if (this.isFollowingPythonInterpreter(folder)) {
+            this.endingFollowMode = true;
+            try {
+                await this.setFollowPythonInterpreter(false, folder);
+            } catch (error) {
+                this.endingFollowMode = false;
+                throw error;
+            }
+        }
+        if (folder) {
+            this.folderEnvs[folder.uri.toString()] = jacPath;
+            await this.context.workspaceState.update(FOLDER_ENVS_KEY, this.folderEnvs);
+            this.activeFolder = folder;
+        }
+        this.jacPath = jacPath;
+        await this.context.workspaceState.update(DEFAULT_ENV_KEY, jacPath);
+        this.updateStatusBar();
+        this.syncWatchers();
+    }
+
+    // Older versions kept the default in globalState, so it followed picks made in any window
+    private async loadDefaultSelection(): Promise<string | undefined> {
+        const stored = this.context.workspaceState.get<string>(DEFAULT_ENV_KEY);
+        if (stored || this.context.workspaceState.get<boolean>(LEGACY_DEFAULT_MIGRATED_KEY)) return stored;
+
+        const legacy = this.context.globalState.get<string>(DEFAULT_ENV_KEY);
+        await this.context.workspaceState.update(LEGACY_DEFAULT_MIGRATED_KEY, true);
+        if (legacy) {
+            await this.context.workspaceState.update(DEFAULT_ENV_KEY, legacy);
+        }
+        return legacy;
+    }
+
+    // Watches every executable that is currently selected for some folder or as the default
+    private syncWatchers(): void {
+        const configured = (vscode.workspace.workspaceFolders ?? []).map(folder => this.getConfiguredPath(folder));
+        const selected = [this.jacPath, ...Object.values(this.folderEnvs), ...Object.values(this.followedEnvs), ...configured]
+            .filter((p): p is string => !!p);
+        this.watcher.watch(Array.from(new Set(selected))).catch(error => {
+            console.warn('Failed to watch Jac environments:', error);
+        });
+    }
+
+    /**
+     * Drops every selection pointing at an executable that was deleted or broke,
+     * then asks the user to pick a replacement.
+     */
+    private async handleEnvironmentRemoved(jacPath: string): Promise<void> {
+        this.envInfo.delete(jacPath);
+
+        const staleFolders = Object.keys(this.folderEnvs).filter(key => this.folderEnvs[key] === jacPath);
+        staleFolders.forEach(key => delete this.folderEnvs[key]);
+        if (staleFolders.length > 0) {
+            await this.context.workspaceState.update(FOLDER_ENVS_KEY, this.folderEnvs);
+        }
+        if (this.jacPath === jacPath) {
+            this.jacPath = undefined;
+            await this.context.workspaceState.update(DEFAULT_ENV_KEY, undefined);
+        }
+        this.updateStatusBar();
+
+        const action = await vscode.window.showWarningMessage(
+            `The selected Jac environment is no longer available: ${this.formatPathForDisplay(jacPath)}`,
+            'Select Environment',
+            'Install Jac'
+        );
+        if (action === 'Select Environment') {
+            await this.promptEnvironmentSelection();
+        } else if (action === 'Install Jac') {
+            await this.installJacEnvironment();
+        }
+    }
+
+    /**
+     * Refreshes the cached versions after jaclang was upgraded or downgraded in place,
+     * and restarts the language servers of the folders that run from that environment.
+     */
+    private async handleVersionChanged(change: JacVersionChange): Promise<void> {
+        await this.getEnvironmentInfo(change.jacPath, true);
+        this.updateStatusBar();
+        if (this.getJacPath() === change.jacPath) {
+            this.environmentChanged.fire(change.jacPath);
+        }
+
+        const lspManager = getLspManager();
+        if (!lspManager) return;
+
+        try {
+            const restarted = await lspManager.restartServers(folder => this.getJacPath(folder?.uri) === change.jacPath);
+            if (restarted > 0) {
+                vscode.window.showInformationMessage(
+                    `jaclang changed from ${change.previousVersion ?? 'unknown'} to ${change.currentVersion ?? 'unknown'}. Restarted the Jac Language Server.`
+                );
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to restart language server: ${error.message || error}`);
+        }
+    }
+
+    private warnIfSelectionOverridden(folder: vscode.WorkspaceFolder | undefined): void {
+        if (this.getConfiguredPath(folder)) {
+            vscode.window.showWarningMessage(
+                `The selection is saved, but ${this.getSelectionSource(folder?.uri)} still takes precedence. Remove it to use the selected environment.`
+            );
+        }
+    }
+
+    /**
+     * Picks the folder a new selection applies to. In multi-root workspaces
+     * without a folder in focus, the user is asked which folder to configure.
+     */
+    private async pickTargetFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+        const folder = this.resolveFolder();
+        if (folder || (vscode.workspace.workspaceFolders?.length ?? 0) <= 1) {
+            return folder;
+        }
+        return vscode.window.showWorkspaceFolderPick({
+            placeHolder: 'Select the workspace folder to configure the Jac environment for'
+        });
+    }
+
     private async showEnvironmentPrompt() {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+        const workspaceRoot = this.resolveFolder()?.uri.fsPath || process.cwd();
         const envs = await findPythonEnvsWithJac(workspaceRoot);
 
         // Unified handler - both cases with ternary
@@ -52,22 +487,72 @@ export class EnvManager {
             );
 
         if (action === 'Install Jac') {
-            vscode.env.openExternal(vscode.Uri.parse('https://www.jac-lang.org/learn/installation/'));
+            await this.installJacEnvironment();
         } else if (action === 'Select Manually' || action === 'Select Environment') {
             await this.promptEnvironmentSelection();
         }
     }
 
-    getJacPath(): string {
-        if (this.jacPath) return this.jacPath;
+    /**
+     * Runs the guided installer in the target folder, then selects the new
+     * environment and starts the language server on it.
+     */
+    async installJacEnvironment(): Promise<void> {
+        const folder = await this.pickTargetFolder();
+        if (!folder) {
+            const action = await vscode.window.showErrorMessage(
+                'Open a workspace folder to install Jac into.',
+                'Installation Guide'
+            );
+            if (action === 'Installation Guide') {
+                vscode.env.openExternal(vscode.Uri.parse('https://www.jac-lang.org/learn/installation/'));
+            }
+            return;
+        }
+
+        try {
+            const jacPath = await installJac(folder);
+            if (!jacPath) return;
+
+            if (!(await validateJacExecutable(jacPath))) {
+                vscode.window.showErrorMessage(`Installation finished but ${jacPath} is not a working Jac executable.`);
+                return;
+            }
+
+            await this.storeSelection(jacPath, folder);
+            vscode.window.showInformationMessage(`Jac installed and selected: ${this.formatPathForDisplay(jacPath)}`);
+            await this.restartLanguageServer();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to install Jac: ${error.message || error}`);
+        }
+    }
+
+    /**
+     * Returns the Jac executable for the folder owning `resource`, or for the active document's folder.
+     */
+    getJacPath(resource?: vscode.Uri): string {
+        const selected = this.getSelectedPath(this.resolveFolder(resource));
+        if (selected) return selected;
         // Fallback: try to find jac in PATH
         return process.platform === 'win32' ? 'jac.exe' : 'jac';
     }
 
-    getPythonPath(): string {
-        if (this.jacPath) {
+    /**
+     * Returns the process to spawn for `jac <args>`, going through the configured command template
+     * (e.g. `docker exec -i mybox jac`) with host paths translated for the container.
+     * @param args Arguments for `jac`.
+     * @param resource The document the command runs for; defaults to the active document's folder.
+     */
+    getJacCommand(args: string[], resource?: vscode.Uri): JacInvocation {
+        const folder = this.resolveFolder(resource);
+        return buildJacInvocation(this.getJacPath(resource), args, folder);
+    }
+
+    getPythonPath(resource?: vscode.Uri): string {
+        const selected = this.getSelectedPath(this.resolveFolder(resource));
+        if (selected) {
             // Convert jac path to python path (same directory)
-            const jacDir = path.dirname(this.jacPath);
+            const jacDir = path.dirname(selected);
             const pythonExecutable = process.platform === 'win32' ? 'python.exe' : 'python';
             return path.join(jacDir, pythonExecutable);
         }
@@ -79,18 +564,27 @@ export class EnvManager {
         return this.statusBar;
     }
 
-    //Validates the current environment and clears it if invalid
+    //Validates the active folder's environment (and the window default) and clears whichever is invalid
     private async validateAndClearIfInvalid(): Promise<void> {
-        if (this.jacPath && !(await validateJacExecutable(this.jacPath))) {
+        const folder = this.resolveFolder();
+        const key = folder?.uri.toString();
+        if (key && this.folderEnvs[key] && !(await validateJacExecutable(this.folderEnvs[key]))) {
+            delete this.folderEnvs[key];
+            await this.context.workspaceState.update(FOLDER_ENVS_KEY, this.folderEnvs);
+            this.updateStatusBar();
+        }
+        if (this.jacPath && this.getSelectedPath(folder) === this.jacPath && !(await validateJacExecutable(this.jacPath))) {
             this.jacPath = undefined;
-            await this.context.globalState.update('jacEnvPath', undefined);
+            await this.context.workspaceState.update(DEFAULT_ENV_KEY, undefined);
             this.updateStatusBar();
         }
+        this.syncWatchers();
     }
 
     async promptEnvironmentSelection() {
         try {
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+            const folder = await this.pickTargetFolder();
+            const workspaceRoot = folder?.uri.fsPath || process.cwd();
 
             await this.validateAndClearIfInvalid(); // Validate current environment before showing picker
             // Instant environment discovery - no progress dialogs needed!
@@ -99,6 +593,7 @@ export class EnvManager {
             const quickPickItems: Array<{
                 label: string;
                 description: string;
+                detail?: string;
                 env: string;
             }> = [];
 
@@ -116,51 +611,32 @@ export class EnvManager {
                 }
             );
 
+            if (await getPythonEnvironmentsApi()) {
+                quickPickItems.push({
+                    label: "$(link) Follow Python Interpreter",
+                    description: "Use the interpreter selected in the Python extension",
+                    env: "follow"
+                });
+            }
+
             if (envs.length > 0) {
                 const pathPartsFromEnv = process.env.PATH?.split(path.delimiter) || [];
 
-                const detectedItems = envs.map(env => {
+                const detectedItems = await Promise.all(envs.map(async env => {
                     const isGlobal = env === 'jac' || env === 'jac.exe' ||
                         pathPartsFromEnv.some(dir => path.join(dir, path.basename(env)) === env);
-
-                    let displayName = '';
-
-                    if (isGlobal) {
-                        displayName = 'Jac';
-                    } else {
-                        // Check if it's in a conda environment
-                        if (env.includes('conda') || env.includes('miniconda') || env.includes('anaconda')) {
-                            const envMatch = env.match(/envs[\/\\]([^\/\\]+)/);
-                            displayName = envMatch ? `Jac (${envMatch[1]})` : 'Jac';
-                        }
-                        // All other environments (venv, local, etc.)
-                        else {
-                            const venvMatch = env.match(/([^\/\\]*(?:\.?venv|virtualenv)[^\/\\]*)/);
-                            if (venvMatch) {
-                                displayName = `Jac (${venvMatch[1]})`;
-                            } else {
-                                // For Windows: go up from Scripts folder to get environment name
-                                // For Unix: use the bin's parent directory name
-                                const dirPath = path.dirname(env);
-                                const parentDirName = path.basename(dirPath);
-
-                                if (parentDirName === 'Scripts' || parentDirName === 'bin') {
-                                    // Go up one more level to get the actual environment name
-                                    const envDirName = path.basename(path.dirname(dirPath));
-                                    displayName = `Jac (${envDirName})`;
-                                } else {
-                                    displayName = `Jac (${parentDirName})`;
-                                }
-                            }
-                        }
-                    }
+                    const [tool, info] = await Promise.all([
+                        isGlobal ? undefined : identifyEnvironmentTool(env),
+                        this.getEnvironmentInfo(env)
+                    ]);
 
                     return {
-                        label: displayName,
+                        label: isGlobal ? 'Jac' : this.formatEnvLabel(env, tool),
                         description: this.formatPathForDisplay(env),
+                        detail: this.formatEnvInfo(info),
                         env: env
                     };
-                });
+                }));
 
                 quickPickItems.push(...detectedItems);
             }
@@ -173,6 +649,16 @@ export class EnvManager {
                 ignoreFocusOut: true
             });
 
+            if (choice?.env === "follow") {
+                await this.setFollowPythonInterpreter(true, folder);
+                await this.refreshFollowedInterpreter(folder);
+                this.updateStatusBar();
+                this.syncWatchers();
+                vscode.window.showInformationMessage("Jac now follows the Python extension's selected interpreter.");
+                await this.restartLanguageServer();
+                return;
+            }
+
             if (!choice || choice.env === "manual" || choice.env === "browse") {
                 this.updateStatusBar();
 
@@ -184,9 +670,8 @@ export class EnvManager {
                 return;
             }
 
-            this.jacPath = choice.env;
-            await this.context.globalState.update('jacEnvPath', choice.env);
-            this.updateStatusBar();
+            await this.storeSelection(choice.env, folder);
+            this.warnIfSelectionOverridden(folder);
 
             // Show success message with path details
             const displayPath = this.formatPathForDisplay(choice.env);
@@ -225,15 +710,15 @@ export class EnvManager {
         });
 
         if (manualPath) {
+            const folder = await this.pickTargetFolder();
             const normalizedPath = manualPath.startsWith('~')
                 ? path.join(process.env.HOME || process.env.USERPROFILE || '', manualPath.slice(1))
                 : manualPath;
 
             // Validate the entered path
             if (await validateJacExecutable(normalizedPath)) {
-                this.jacPath = normalizedPath;
-                await this.context.globalState.update('jacEnvPath', normalizedPath);
-                this.updateStatusBar();
+                await this.storeSelection(normalizedPath, folder);
+                this.warnIfSelectionOverridden(folder);
 
                 vscode.window.showInformationMessage(
                     `Jac environment set to: ${this.formatPathForDisplay(normalizedPath)}`
@@ -277,12 +762,12 @@ export class EnvManager {
 
         if (fileUri && fileUri.length > 0) {
             const selectedPath = fileUri[0].fsPath;
+            const folder = await this.pickTargetFolder();
 
             // Validate the selected file
             if (await validateJacExecutable(selectedPath)) {
-                this.jacPath = selectedPath;
-                await this.context.globalState.update('jacEnvPath', selectedPath);
-                this.updateStatusBar();
+                await this.storeSelection(selectedPath, folder);
+                this.warnIfSelectionOverridden(folder);
 
                 vscode.window.showInformationMessage(
                     `Jac environment set to: ${this.formatPathForDisplay(selectedPath)}`
@@ -306,6 +791,111 @@ export class EnvManager {
     }
 
 
+    /**
+     * Returns the probed versions of a Jac environment, cached per executable.
+     * @param jacPath The executable to probe, defaults to the active folder's environment.
+     * @param refresh Probe again even if a cached result exists.
+     */
+    async getEnvironmentInfo(jacPath: string = this.getJacPath(), refresh = false): Promise<JacEnvironmentInfo | undefined> {
+        if (!refresh && this.envInfo.has(jacPath)) {
+            return this.envInfo.get(jacPath);
+        }
+        const info = await probeJacEnvironment(jacPath);
+        if (info) {
+            this.envInfo.set(jacPath, info);
+        } else {
+            this.envInfo.delete(jacPath);
+        }
+        return info;
+    }
+
+    /**
+     * Warns when the active environment's jaclang is older than the minimum supported
+     * version and offers to upgrade it. Resolves once the user has made a choice.
+     */
+    async checkCompatibility(): Promise<void> {
+        const info = await this.getEnvironmentInfo();
+        if (!info?.jacVersion || compareVersions(info.jacVersion, MIN_JACLANG_VERSION) >= 0) {
+            return;
+        }
+
+        const action = await vscode.window.showWarningMessage(
+            `jaclang ${info.jacVersion} is older than the minimum supported version ${MIN_JACLANG_VERSION}. Some language features may not work.`,
+            'Upgrade jaclang',
+            'Continue Anyway'
+        );
+        if (action !== 'Upgrade jaclang') return;
+
+        const pythonPath = info.pythonPath || this.getPythonPath();
+        try {
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Upgrading jaclang...' },
+                () => runPip(pythonPath, ['install', '--upgrade', 'jaclang'])
+            );
+            const upgraded = await this.getEnvironmentInfo(info.jacPath, true);
+            this.updateStatusBar();
+            vscode.window.showInformationMessage(`jaclang upgraded to ${upgraded?.jacVersion ?? 'the latest version'}.`);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to upgrade jaclang: ${error.message || error}`);
+        }
+    }
+
+    /**
+     * Summarises probed versions for quick pick details and tooltips,
+     * e.g. "jaclang 0.9.3 · Python 3.12.4 · byllm 0.4.2".
+     */
+    private formatEnvInfo(info: JacEnvironmentInfo | undefined): string | undefined {
+        if (!info) return undefined;
+        const parts: string[] = [];
+        if (info.jacVersion) parts.push(`jaclang ${info.jacVersion}`);
+        if (info.pythonVersion) parts.push(`Python ${info.pythonVersion}`);
+        parts.push(...Object.entries(info.plugins).map(([name, version]) => `${name} ${version}`));
+        return parts.length > 0 ? parts.join(' · ') : undefined;
+    }
+
+    // Probes the environment in the background and refreshes the status bar once versions are known
+    private async refreshStatusBarInfo(jacPath: string): Promise<void> {
+        if (this.pendingProbes.has(jacPath)) return;
+        this.pendingProbes.add(jacPath);
+        try {
+            if (await this.getEnvironmentInfo(jacPath)) {
+                this.updateStatusBar();
+            }
+        } finally {
+            this.pendingProbes.delete(jacPath);
+        }
+    }
+
+    /**
+     * Builds the quick pick label for a detected environment, tagged with the tool that owns it
+     * (e.g. "Jac (myapp-x1Y2-py3.12: Poetry)").
+     */
+    private formatEnvLabel(env: string, tool: EnvironmentTool | undefined): string {
+        // For Windows: go up from Scripts folder to get environment name
+        // For Unix: use the bin's parent directory name
+        const dirPath = path.dirname(env);
+        const parentDirName = path.basename(dirPath);
+        const envDirName = parentDirName === 'Scripts' || parentDirName === 'bin'
+            ? path.basename(path.dirname(dirPath))
+            : parentDirName;
+
+        let name: string | undefined;
+        if (tool === 'conda') {
+            // The base env has no name in its path
+            const envMatch = env.match(/envs[\/\\]([^\/\\]+)/);
+            name = envMatch?.[1];
+        } else if (tool) {
+            // Tool caches are named e.g. "virtualenvs", so use the environment's own folder
+            name = envDirName;
+        } else {
+            const venvMatch = env.match(/([^\/\\]*(?:\.?venv|virtualenv)[^\/\\]*)/);
+            name = venvMatch ? venvMatch[1] : envDirName;
+        }
+
+        if (!tool) return `Jac (${name})`;
+        return name ? `Jac (${name}: ${tool})` : `Jac (${tool})`;
+    }
+
     /**
      * Formats a file path for display in the quick pick, similar to VS Code Python extension
      */
@@ -329,17 +919,37 @@ export class EnvManager {
     }
 
     updateStatusBar() {
-        if (this.jacPath) {
-            const isGlobal = this.jacPath === 'jac' || this.jacPath === 'jac.exe' ||
+        const folder = this.activeFolder ?? this.resolveFolder();
+        const jacPath = this.getSelectedPath(folder);
+        const effectivePath = this.getJacPath(folder?.uri);
+        if (effectivePath !== this.lastEffectivePath) {
+            this.lastEffectivePath = effectivePath;
+            this.environmentChanged.fire(effectivePath);
+        }
+        // Only name the folder when there is more than one to tell apart
+        const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+        const folderSuffix = isMultiRoot && folder ? ` [${folder.name}]` : '';
+        const folderLine = folder && isMultiRoot ? `Folder: ${folder.name}\n` : '';
+
+        if (jacPath) {
+            const isGlobal = jacPath === 'jac' || jacPath === 'jac.exe' ||
                 (process.env.PATH?.split(path.delimiter) || []).some(dir =>
-                    path.join(dir, path.basename(this.jacPath!)) === this.jacPath);
+                    path.join(dir, path.basename(jacPath)) === jacPath);
 
             const label = isGlobal ? 'Jac (Global)' : 'Jac';
-            this.statusBar.text = `$(check) ${label}`;
-            this.statusBar.tooltip = `Current: ${this.jacPath}${isGlobal ? ' (Global)' : ''}\nClick to change`;
+            const info = this.envInfo.get(jacPath);
+            const infoLine = info ? `${this.formatEnvInfo(info)}\n` : '';
+            const followLine = this.isFollowingPythonInterpreter(folder) && this.getFollowedPath(folder) === jacPath
+                ? "Following the Python extension's interpreter\n"
+                : '';
+            this.statusBar.text = `$(check) ${label}${folderSuffix}`;
+            this.statusBar.tooltip = `${folderLine}Current: ${jacPath}${isGlobal ? ' (Global)' : ''}\n${infoLine}${followLine}Click to change`;
+            if (!info) {
+                this.refreshStatusBarInfo(jacPath);
+            }
         } else {
-            this.statusBar.text = '$(warning) Jac: No Env';
-            this.statusBar.tooltip = 'No Jac environment selected - Click to select';
+            this.statusBar.text = `$(warning) Jac: No Env${folderSuffix}`;
+            this.statusBar.tooltip = `${folderLine}No Jac environment selected - Click to select`;
         }
         this.statusBar.show();
     }
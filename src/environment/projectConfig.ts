@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { parse } from '@iarna/toml';
+import { findJacForInterpreter } from '../utils/pythonExtension';
+
+export const PROJECT_CONFIG_FILE = 'jac.toml';
+
+/**
+ * Extension-relevant settings from a project's jac.toml:
+ *
+ *     [project]
+ *     entry-point = "main.jac"
+ *
+ *     [environment]
+ *     interpreter = ".venv/bin/jac"   # a jac executable, or the python it is installed for
+ *
+ *     [run]
+ *     args = ["--no-cache"]
+ */
+export interface JacProjectConfig {
+    /** Absolute path of the jac.toml these settings were read from. */
+    configPath: string;
+    /** Absolute path of the Jac executable to use. */
+    interpreter?: string;
+    /** Absolute path of the default file for run and serve. */
+    entryPoint?: string;
+    /** Extra arguments appended to `jac run` invocations. */
+    args: string[];
+}
+
+/**
+ * Expands `${workspaceFolder}`, `${workspaceFolderBasename}`, `${userHome}` and `${env:NAME}` in a setting value.
+ * @param value The raw setting value.
+ * @param folder The workspace folder the value is resolved for.
+ */
+export function substituteVariables(value: string, folder: vscode.WorkspaceFolder | undefined): string {
+    const homeDir = process.env.HOME || process.env.USERPROFILE || '';
+    return value
+        .replace(/\$\{workspaceFolder\}/g, folder?.uri.fsPath ?? '')
+        .replace(/\$\{workspaceFolderBasename\}/g, folder?.name ?? '')
+        .replace(/\$\{userHome\}/g, homeDir)
+        .replace(/\$\{env:([^}]+)\}/g, (_, name: string) => process.env[name] ?? '');
+}
+
+/**
+ * Expands variables (see substituteVariables) and a leading `~` in a configured path.
+ * @param value The raw setting value.
+ * @param folder The workspace folder the value is resolved for.
+ * @returns The expanded value; relative paths are resolved against the workspace folder.
+ */
+export function resolveConfiguredPath(value: string, folder: vscode.WorkspaceFolder | undefined): string {
+    const homeDir = process.env.HOME || process.env.USERPROFILE || '';
+    let resolved = substituteVariables(value.trim(), folder);
+
+    if (resolved === '~' || resolved.startsWith('~/') || resolved.startsWith('~\\')) {
+        resolved = path.join(homeDir, resolved.slice(1));
+    }
+    // Bare command names (e.g. 'jac') are looked up on PATH, so leave them alone
+    if (folder && !path.isAbsolute(resolved) && /[\\/]/.test(resolved)) {
+        resolved = path.join(folder.uri.fsPath, resolved);
+    }
+    return resolved;
+}
+
+/**
+ * Reads jac.toml from the root of a workspace folder.
+ * @param folder The workspace folder to read from.
+ * @returns The parsed settings, or undefined if the folder has no jac.toml.
+ * @throws Error when jac.toml exists but is not valid TOML.
+ */
+export async function readProjectConfig(folder: vscode.WorkspaceFolder): Promise<JacProjectConfig | undefined> {
+    const configPath = path.join(folder.uri.fsPath, PROJECT_CONFIG_FILE);
+    let text: string;
+    try {
+        text = await fs.readFile(configPath, 'utf-8');
+    } catch {
+        return undefined;
+    }
+
+    const toml = parse(text) as Record<string, any>;
+    const config: JacProjectConfig = { configPath, args: [] };
+
+    const interpreter = toml.environment?.interpreter;
+    if (typeof interpreter === 'string' && interpreter.trim()) {
+        const resolved = resolveConfiguredPath(interpreter, folder);
+        // Accept the environment's python as well, and use the jac installed next to it
+        config.interpreter = /^python[\d.]*(\.exe)?$/i.test(path.basename(resolved))
+            ? findJacForInterpreter(resolved) ?? resolved
+            : resolved;
+    }
+
+    const entryPoint = toml.project?.['entry-point'];
+    if (typeof entryPoint === 'string' && entryPoint.trim()) {
+        config.entryPoint = path.resolve(folder.uri.fsPath, entryPoint.trim());
+    }
+
+    const args = toml.run?.args;
+    if (Array.isArray(args)) {
+        config.args = args.map(arg => String(arg));
+    } else if (typeof args === 'string' && args.trim()) {
+        config.args = args.trim().split(/\s+/);
+    }
+
+    return config;
+}
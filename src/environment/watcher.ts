@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { probeJacEnvironment, validateJacExecutable } from '../utils/envDetection';
+
+// pip touches many files during an upgrade; wait for it to settle before re-validating
+const SETTLE_DELAY_MS = 2000;
+
+export interface JacVersionChange {
+    jacPath: string;
+    previousVersion: string | undefined;
+    currentVersion: string | undefined;
+}
+
+interface WatchedEnv {
+    version: string | undefined;
+    disposables: vscode.Disposable[];
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * Watches selected Jac executables and their installed jaclang metadata, and reports
+ * environments that disappear or whose jaclang version changes underneath the extension.
+ */
+export class EnvWatcher implements vscode.Disposable {
+    private watched = new Map<string, WatchedEnv>();
+    private readonly removedEmitter = new vscode.EventEmitter<string>();
+    private readonly versionChangedEmitter = new vscode.EventEmitter<JacVersionChange>();
+
+    /** Fires with the jac path when an executable is deleted or stops responding. */
+    readonly onDidRemoveEnvironment = this.removedEmitter.event;
+    /** Fires when the installed jaclang version of a watched environment changes. */
+    readonly onDidChangeVersion = this.versionChangedEmitter.event;
+
+    /**
+     * Replaces the watched set with the given executables. Bare names resolved
+     * through PATH (e.g. 'jac') have no file to watch and are skipped.
+     */
+    async watch(jacPaths: string[]): Promise<void> {
+        const wanted = new Set(jacPaths.filter(jacPath => path.isAbsolute(jacPath)));
+
+        for (const [jacPath, entry] of this.watched) {
+            if (!wanted.has(jacPath)) {
+                this.disposeEntry(entry);
+                this.watched.delete(jacPath);
+            }
+        }
+
+        for (const jacPath of wanted) {
+            if (this.watched.has(jacPath)) continue;
+
+            const entry: WatchedEnv = { version: undefined, disposables: [] };
+            this.watched.set(jacPath, entry);
+
+            const info = await probeJacEnvironment(jacPath);
+            // A later call dropped this path while it was probed; its watchers would never be disposed
+            if (this.watched.get(jacPath) !== entry) continue;
+            entry.version = info?.jacVersion;
+
+            const patterns = [new vscode.RelativePattern(vscode.Uri.file(path.dirname(jacPath)), path.basename(jacPath))];
+            if (info?.sitePackages) {
+                patterns.push(new vscode.RelativePattern(vscode.Uri.file(info.sitePackages), 'jaclang-*.dist-info/METADATA'));
+            }
+
+            for (const pattern of patterns) {
+                const fsWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+                const schedule = () => this.scheduleCheck(jacPath);
+                entry.disposables.push(
+                    fsWatcher,
+                    fsWatcher.onDidChange(schedule),
+                    fsWatcher.onDidCreate(schedule),
+                    fsWatcher.onDidDelete(schedule)
+                );
+            }
+        }
+    }
+
+    private scheduleCheck(jacPath: string): void {
+        const entry = this.watched.get(jacPath);
+        if (!entry) return;
+        if (entry.timer) clearTimeout(entry.timer);
+        entry.timer = setTimeout(() => this.check(jacPath), SETTLE_DELAY_MS);
+    }
+
+    // Re-validates a watched executable after its files changed
+    private async check(jacPath: string): Promise<void> {
+        const entry = this.watched.get(jacPath);
+        if (!entry) return;
+        entry.timer = undefined;
+
+        if (!fs.existsSync(jacPath) || !(await validateJacExecutable(jacPath))) {
+            this.disposeEntry(entry);
+            this.watched.delete(jacPath);
+            this.removedEmitter.fire(jacPath);
+            return;
+        }
+
+        const info = await probeJacEnvironment(jacPath);
+        const previousVersion = entry.version;
+        entry.version = info?.jacVersion;
+        if (previousVersion !== entry.version) {
+            this.versionChangedEmitter.fire({ jacPath, previousVersion, currentVersion: entry.version });
+        }
+    }
+
+    private disposeEntry(entry: WatchedEnv): void {
+        if (entry.timer) clearTimeout(entry.timer);
+        entry.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    dispose(): void {
+        for (const entry of this.watched.values()) {
+            this.disposeEntry(entry);
+        }
+        this.watched.clear();
+        this.removedEmitter.dispose();
+        this.versionChangedEmitter.dispose();
+    }
+}
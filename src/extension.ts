@@ -2,8 +2,18 @@ import * as vscode from "vscode";
 import { EnvManager } from "./environment/manager";
 import { registerAllCommands } from "./commands";
 import { setupVisualDebuggerWebview } from "./webview/visualDebugger";
+import { registerPluginsView } from "./views/pluginsView";
+import { registerCompiledPythonView } from "./views/compiledPythonView";
+import { registerServeSessionsView } from "./views/serveSessionsView";
+import { registerCompilerInspector } from "./views/compilerInspector";
+import { registerJacTasks } from "./tasks/jacTaskProvider";
+import { registerTestController } from "./testing/testController";
 import { LspManager } from "./lsp/lsp_manager";
+import { getTraceDirectory } from "./lsp/protocolRecorder";
+import { isServedJacDocument } from "./lsp/documentSchemes";
+import { getExternalServerAddress } from "./lsp/externalServer";
 import { validateJacExecutable } from "./utils/envDetection";
+import { getCommandTemplate } from "./utils/commandWrapper";
 
 let lspManager: LspManager | undefined;
 let envManager: EnvManager | undefined;
@@ -22,17 +32,55 @@ export async function createAndStartLsp(
   context: vscode.ExtensionContext
 ): Promise<void> {
   if (!lspManager) {
+    // Warn about (and offer to upgrade) unsupported jaclang versions before the server starts
+    await envManager.checkCompatibility();
+    lspManager = new LspManager(envManager, getTraceDirectory(context));
+    context.subscriptions.push({ dispose: () => lspManager?.dispose() });
+    // The manager is kept when the first start fails, so its status item and crash supervisor can recover
+    await lspManager.start();
+  }
+}
+
+// Validates the executable and starts the LSP; failures are logged so they never break activation
+async function startLsp(envManager: EnvManager, context: vscode.ExtensionContext): Promise<void> {
+  const jacPath = envManager.getJacPath();
+  // Check if Jac is available before starting LSP; behind a command template or an external server it lives outside the host
+  const isJacAvailable = !!getCommandTemplate(envManager.resolveFolder())
+    || !!getExternalServerAddress()
+    || await validateJacExecutable(jacPath);
+
+  if (isJacAvailable) {
     try {
-      lspManager = new LspManager(envManager);
-      await lspManager.start();
-      context.subscriptions.push({ dispose: () => lspManager?.stop() });
+      await createAndStartLsp(envManager, context);
     } catch (error) {
-      lspManager = undefined;
-      throw error;
+      console.error("LSP failed to start:", error);
     }
   }
 }
 
+// Defers the LSP until a Jac document is open, so activating from a command or view in a non-Jac workspace stays cheap
+function startLspOnFirstJacDocument(envManager: EnvManager, context: vscode.ExtensionContext): Promise<void> {
+  let starting = false;
+  // Keeps listening until the manager exists, so a failed start is retried with the next Jac document
+  const tryStart = async () => {
+    if (starting || lspManager) return;
+    starting = true;
+    try {
+      await startLsp(envManager, context);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to start the Jac Language Server: ${error.message || error}`);
+    } finally {
+      starting = false;
+    }
+    if (lspManager) listener.dispose();
+  };
+  const listener = vscode.workspace.onDidOpenTextDocument(document => {
+    if (isServedJacDocument(document)) tryStart();
+  });
+  context.subscriptions.push(listener);
+  return vscode.workspace.textDocuments.some(isServedJacDocument) ? tryStart() : Promise.resolve();
+}
+
 export async function activate(context: vscode.ExtensionContext) {
   try {
     const envManager = new EnvManager(context);
@@ -40,17 +88,14 @@ export async function activate(context: vscode.ExtensionContext) {
     await envManager.init();
 
     setupVisualDebuggerWebview(context);
+    registerPluginsView(context, envManager);
+    registerServeSessionsView(context, envManager);
+    registerCompiledPythonView(context, envManager);
+    registerCompilerInspector(context, envManager);
+    registerJacTasks(context, envManager);
+    registerTestController(context, envManager);
 
-    const jacPath = envManager.getJacPath();
-    const isJacAvailable = await validateJacExecutable(jacPath); // Check if Jac is available before starting LSP
-
-    if (isJacAvailable) {
-      try {
-        await createAndStartLsp(envManager, context);
-      } catch (error) {
-        console.error("LSP failed to start during activation:", error);
-      }
-    }
+    await startLspOnFirstJacDocument(envManager, context);
 
     return {
         getEnvManager: () => envManager,
@@ -0,0 +1,51 @@
+// lsp/documentSchemes.ts
+import * as vscode from 'vscode';
+import { DocumentFilter, Middleware, vsdiag } from 'vscode-languageclient/node';
+
+/**
+ * Schemes of Jac documents that do not live on the local disk: scratch buffers, virtual and
+ * remote file systems, and the historic revisions shown in diff views.
+ */
+export const NON_FILE_SCHEMES = ['untitled', 'vscode-vfs', 'vscode-remote', 'memfs', 'git', 'gitlens', 'gitfs'];
+
+// Source-control revisions; their problems are not actionable, so they are kept out of the Problems panel
+const READ_ONLY_SCHEMES = ['git', 'gitlens', 'gitfs'];
+
+/**
+ * Whether documents of a scheme cannot be edited, either because they are known revision
+ * snapshots or because their file system provider reports itself read-only.
+ */
+export function isReadOnlyScheme(scheme: string): boolean {
+    if (scheme === 'file' || scheme === 'untitled') return false;
+    return READ_ONLY_SCHEMES.includes(scheme) || vscode.workspace.fs.isWritableFileSystem(scheme) === false;
+}
+
+/** Whether a document is a Jac document the language server handles, on disk or not. */
+export function isServedJacDocument(document: vscode.TextDocument): boolean {
+    return document.languageId === 'jac'
+        && (document.uri.scheme === 'file' || NON_FILE_SCHEMES.includes(document.uri.scheme));
+}
+
+/** Document filters matching Jac documents of every non-file scheme. */
+export function getNonFileDocumentFilters(): DocumentFilter[] {
+    return NON_FILE_SCHEMES.map(scheme => ({ scheme, language: 'jac' }));
+}
+
+/**
+ * Drops diagnostics for read-only documents, both pushed and pulled, while leaving hover,
+ * navigation and the other features untouched.
+ */
+export function createReadOnlyDiagnosticsMiddleware(): Middleware {
+    return {
+        handleDiagnostics: (uri, diagnostics, next) => {
+            next(uri, isReadOnlyScheme(uri.scheme) ? [] : diagnostics);
+        },
+        provideDiagnostics: (document, previousResultId, token, next) => {
+            const uri = document instanceof vscode.Uri ? document : document.uri;
+            if (isReadOnlyScheme(uri.scheme)) {
+                return { kind: vsdiag.DocumentDiagnosticReportKind.full, items: [] };
+            }
+            return next(document, previousResultId, token);
+        },
+    };
+}
@@ -0,0 +1,57 @@
+// lsp/externalServer.ts
+import * as vscode from 'vscode';
+import * as net from 'net';
+import { StreamInfo } from 'vscode-languageclient/node';
+
+export const SERVER_ADDRESS_SETTING = 'serverAddress';
+
+// How long to wait for the external server to accept a connection
+const CONNECT_TIMEOUT_MS = 5000;
+
+export interface ServerAddress {
+    host: string;
+    port: number;
+}
+
+/**
+ * Parses `host:port`, `:port` or a bare port; the host defaults to localhost.
+ * @returns The address, or undefined when the value is empty or malformed.
+ */
+export function parseServerAddress(value: string | undefined): ServerAddress | undefined {
+    const match = /^(?:\[?([^\]]*?)\]?:)?(\d+)$/.exec((value ?? '').trim());
+    if (!match) return undefined;
+    const port = Number(match[2]);
+    if (port < 1 || port > 65535) return undefined;
+    return { host: match[1] || '127.0.0.1', port };
+}
+
+/**
+ * The externally running language server to connect to instead of spawning `jac lsp`.
+ * Only honoured in developer mode.
+ */
+export function getExternalServerAddress(): ServerAddress | undefined {
+    const config = vscode.workspace.getConfiguration('jaclang-extension');
+    if (!config.get<boolean>('developerMode', false)) return undefined;
+    return parseServerAddress(config.get<string>(SERVER_ADDRESS_SETTING, ''));
+}
+
+/**
+ * Opens a socket to an external language server.
+ * @throws Error when the server does not accept the connection in time.
+ */
+export function connectToServer(address: ServerAddress): Promise<StreamInfo> {
+    return new Promise((resolve, reject) => {
+        const socket = net.connect(address.port, address.host);
+        const fail = (error: Error) => {
+            socket.destroy();
+            reject(new Error(`Could not connect to Jac language server at ${address.host}:${address.port}: ${error.message}`));
+        };
+        socket.setTimeout(CONNECT_TIMEOUT_MS, () => fail(new Error('connection timed out')));
+        socket.once('error', fail);
+        socket.once('connect', () => {
+            socket.setTimeout(0);
+            socket.removeListener('error', fail);
+            resolve({ reader: socket, writer: socket });
+        });
+    });
+}
@@ -0,0 +1,125 @@
+// lsp/featureToggles.ts
+import * as vscode from 'vscode';
+import { LanguageClient, Middleware, SemanticTokensRegistrationType, vsdiag } from 'vscode-languageclient/node';
+
+/** Server capabilities that can be switched off individually under `jaclang-extension.features`. */
+export const JAC_FEATURES = ['hover', 'completion', 'diagnostics', 'semanticTokens', 'formatting', 'references'] as const;
+export type JacFeature = typeof JAC_FEATURES[number];
+
+/**
+ * Whether a capability is enabled for a document. Read on every request, so edits to the
+ * settings apply immediately.
+ */
+export function isFeatureEnabled(feature: JacFeature, scope?: vscode.Uri): boolean {
+    return vscode.workspace.getConfiguration('jaclang-extension', scope).get<boolean>(`features.${feature}`, true) !== false;
+}
+
+// A middleware hook: the request's own parameters, then the `next` that carries on to the server
+type Hook = (...args: unknown[]) => unknown;
+
+function isHook(value: unknown): value is Hook {
+    return typeof value === 'function';
+}
+
+/**
+ * Combines two middlewares so that `first` runs before `second` for hooks both define; the
+ * `next` that `first` calls runs `second`, whose own `next` reaches the server. Nested
+ * middlewares, such as `workspace`, are combined the same way.
+ */
+export function chainMiddleware<T extends object = Middleware>(first: T, second: T): T {
+    const combined: T = { ...first, ...second };
+    for (const key of Object.keys(first) as Array<keyof T>) {
+        combined[key] = chainHook(first, second, key);
+    }
+    return combined;
+}
+
+function chainHook<T extends object, K extends keyof T>(first: T, second: T, key: K): T[K] {
+    const outer = first[key];
+    const inner = second[key];
+    if (isHook(outer) && isHook(inner)) {
+        const chained: Hook = (...args) => {
+            const next = args[args.length - 1];
+            const params = args.slice(0, -1);
+            // Arguments `first` leaves out keep their original values, so `next` stays last
+            return outer(...params, (...innerArgs: unknown[]) =>
+                inner(...params.map((param, index) => index < innerArgs.length ? innerArgs[index] : param), next));
+        };
+        return chained as T[K];
+    }
+    if (outer && inner && typeof outer === 'object' && typeof inner === 'object') {
+        return chainMiddleware(outer, inner);
+    }
+    return inner ?? outer;
+}
+
+/**
+ * Drops the requests and notifications of disabled capabilities on the client side, leaving
+ * the server running. Published diagnostics are remembered, so turning diagnostics back on
+ * restores them without waiting for the server to publish again.
+ */
+export class FeatureToggles {
+    private published = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+
+    createMiddleware(): Middleware {
+        return {
+            provideHover: (document, position, token, next) =>
+                isFeatureEnabled('hover', document.uri) ? next(document, position, token) : undefined,
+            provideCompletionItem: (document, position, context, token, next) =>
+                isFeatureEnabled('completion', document.uri) ? next(document, position, context, token) : undefined,
+            handleDiagnostics: (uri, diagnostics, next) => {
+                if (diagnostics.length > 0) {
+                    this.published.set(uri.toString(), { uri, diagnostics });
+                } else {
+                    this.published.delete(uri.toString());
+                }
+                next(uri, isFeatureEnabled('diagnostics', uri) ? diagnostics : []);
+            },
+            provideDiagnostics: (document, previousResultId, token, next) => {
+                const uri = document instanceof vscode.Uri ? document : document.uri;
+                return isFeatureEnabled('diagnostics', uri)
+                    ? next(document, previousResultId, token)
+                    : { kind: vsdiag.DocumentDiagnosticReportKind.full, items: [] };
+            },
+            provideDocumentSemanticTokens: (document, token, next) =>
+                isFeatureEnabled('semanticTokens', document.uri) ? next(document, token) : undefined,
+            provideDocumentSemanticTokensEdits: (document, previousResultId, token, next) =>
+                isFeatureEnabled('semanticTokens', document.uri) ? next(document, previousResultId, token) : undefined,
+            provideDocumentRangeSemanticTokens: (document, range, token, next) =>
+                isFeatureEnabled('semanticTokens', document.uri) ? next(document, range, token) : undefined,
+            provideDocumentFormattingEdits: (document, options, token, next) =>
+                isFeatureEnabled('formatting', document.uri) ? next(document, options, token) : undefined,
+            provideDocumentRangeFormattingEdits: (document, range, options, token, next) =>
+                isFeatureEnabled('formatting', document.uri) ? next(document, range, options, token) : undefined,
+            provideOnTypeFormattingEdits: (document, position, ch, options, token, next) =>
+                isFeatureEnabled('formatting', document.uri) ? next(document, position, ch, options, token) : undefined,
+            provideReferences: (document, position, context, token, next) =>
+                isFeatureEnabled('references', document.uri) ? next(document, position, context, token) : undefined,
+        };
+    }
+
+    /**
+     * Refreshes what the editor already shows when a toggle changes: diagnostics are hidden or
+     * restored, and semantic tokens re-requested. The other capabilities apply on their next request.
+     */
+    watch(client: LanguageClient): vscode.Disposable {
+        return vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('jaclang-extension.features.diagnostics')) {
+                for (const { uri, diagnostics } of this.published.values()) {
+                    client.diagnostics?.set(uri, isFeatureEnabled('diagnostics', uri) ? diagnostics : []);
+                }
+            }
+            if (event.affectsConfiguration('jaclang-extension.features.semanticTokens') && client.isRunning()) {
+                const feature = client.getFeature(SemanticTokensRegistrationType.method);
+                for (const document of vscode.workspace.textDocuments) {
+                    feature?.getProvider(document)?.onDidChangeSemanticTokensEmitter.fire();
+                }
+            }
+        });
+    }
+
+    /** Forgets the diagnostics of a server that went away. */
+    clear(): void {
+        this.published.clear();
+    }
+}
@@ -0,0 +1,371 @@
+// lsp/jacServer.ts
+import * as vscode from 'vscode';
+import { ChildProcess } from 'child_process';
+import {
+    CloseAction,
+    CloseHandlerResult,
+    DocumentSelector,
+    ErrorAction,
+    LanguageClient,
+    LanguageClientOptions,
+    ServerOptions
+} from 'vscode-languageclient/node';
+import type { EnvManager } from '../environment/manager';
+import { getCommandTemplate, getPathMappings, toLocalPath, toRemotePath, PathMapping } from '../utils/commandWrapper';
+import { CrashSupervisor, ServerState } from './supervisor';
+import { isProtocolRecordingEnabled, ProtocolRecorder, spawnRecordedServer, tapStreams } from './protocolRecorder';
+import { connectToServer, getExternalServerAddress, ServerAddress } from './externalServer';
+import { createConfigurationMiddleware, getServerSettings, watchServerSettings } from './serverSettings';
+import { createReadOnlyDiagnosticsMiddleware, getNonFileDocumentFilters } from './documentSchemes';
+import { chainMiddleware, FeatureToggles } from './featureToggles';
+import { COMMANDS } from '../constants';
+
+export const RESTART_ACTION = 'Restart Language Server';
+export const SHOW_LOGS_ACTION = 'Show Logs';
+export const CHANGE_ENV_ACTION = 'Change Environment';
+
+// Interval between attempts to reach an external server that went away
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * One `jac lsp` process and its client, serving the Jac files of a single workspace folder
+ * (or every Jac file when the window has no folder). Unexpected exits are restarted by a
+ * crash supervisor. In developer mode the client may instead connect to an external server,
+ * which is reconnected to whenever it goes away.
+ */
+export class JacServer {
+    private client: LanguageClient | undefined;
+    private outputChannel: vscode.OutputChannel;
+    // Only set when we spawn the server ourselves, i.e. while recording the protocol
+    private serverProcess: ChildProcess | undefined;
+    private state: ServerState = 'stopped';
+    private supervisor = new CrashSupervisor();
+    // Crashes handled so far, to tell whether a failed restart was already counted
+    private supervisedCrashes = 0;
+    private restartTimer: NodeJS.Timeout | undefined;
+    // Set while we stop the client ourselves, so the exit is not mistaken for a crash
+    private stopping = false;
+    // Set by stop(), so an external server is no longer reconnected to
+    private stopRequested = false;
+    // Set when connected over TCP to a server someone else runs
+    private externalAddress: ServerAddress | undefined;
+    // Why the last attempt to reach an external server failed, until an attempt succeeds
+    private connectionError: Error | undefined;
+    private settingsWatcher: vscode.Disposable | undefined;
+    private featureToggles = new FeatureToggles();
+    private featureWatcher: vscode.Disposable | undefined;
+    private readonly stateChanged = new vscode.EventEmitter<ServerState>();
+    readonly onDidChangeState = this.stateChanged.event;
+
+    /**
+     * @param folder The workspace folder served, or undefined for the window-wide server.
+     * @param getRecorder Returns the protocol recorder when recording is enabled.
+     * @param servesNonFileDocuments Whether this server also handles untitled, virtual and revision documents.
+     */
+    constructor(
+        readonly folder: vscode.WorkspaceFolder | undefined,
+        private envManager: EnvManager,
+        private getRecorder: () => ProtocolRecorder | undefined,
+        readonly servesNonFileDocuments = false
+    ) {
+        // Kept across restarts so the logs of a crashed server stay readable
+        this.outputChannel = vscode.window.createOutputChannel(this.displayName);
+    }
+
+    /** The client name, which carries the folder when servers run per folder. */
+    get displayName(): string {
+        return this.folder ? `Jac Language Server [${this.folder.name}]` : 'Jac Language Server';
+    }
+
+    async start(): Promise<void> {
+        this.stopRequested = false;
+        try {
+            await this.startClient();
+        } catch (error) {
+            this.handleStartFailure(error);
+        }
+    }
+
+    private async startClient(): Promise<void> {
+        if (this.client) return;
+
+        const resource = this.folder?.uri;
+        const { command, args } = this.envManager.getJacCommand(['lsp'], resource);
+        const recorder = isProtocolRecordingEnabled() ? this.getRecorder() : undefined;
+        const address = getExternalServerAddress();
+        this.externalAddress = address;
+
+        const serverOptions = this.createServerOptions(command, args, address, recorder);
+
+        const clientOptions: LanguageClientOptions = {
+            documentSelector: this.getDocumentSelector(),
+            workspaceFolder: this.folder,
+            outputChannel: this.outputChannel,
+            // Read on every (re)start so the server always begins with the current settings
+            initializationOptions: () => getServerSettings(this.folder?.uri),
+            middleware: {
+                // Read-only documents drop their diagnostics before the toggles remember what was published
+                ...chainMiddleware(createReadOnlyDiagnosticsMiddleware(), this.featureToggles.createMiddleware()),
+                workspace: {
+                    configuration: createConfigurationMiddleware(this.folder?.uri),
+                },
+            },
+            errorHandler: {
+                error: (_error, _message, count) => ({
+                    action: count && count <= 3 ? ErrorAction.Continue : ErrorAction.Shutdown
+                }),
+                closed: () => this.handleServerExit(),
+            },
+        };
+        // A server behind a command wrapper sees the workspace at its mapped location
+        const mappings = getCommandTemplate(this.folder) ? getPathMappings(this.folder) : [];
+        if (mappings.length > 0) {
+            clientOptions.uriConverters = createUriConverters(mappings);
+        }
+        this.client = new LanguageClient(
+            'jacLanguageServer',
+            this.displayName,
+            serverOptions,
+            clientOptions
+        );
+
+        this.setState('starting');
+        try {
+            await this.client.start();
+        } catch (error) {
+            this.setState('crashed');
+            throw error;
+        }
+        this.settingsWatcher = watchServerSettings(this.client, this.folder?.uri);
+        this.featureWatcher = this.featureToggles.watch(this.client);
+        this.connectionError = undefined;
+        this.setState('running');
+    }
+
+    async stop(): Promise<void> {
+        this.stopRequested = true;
+        this.cancelScheduledRestart();
+        await this.stopClient();
+        this.setState('stopped');
+    }
+
+    private async stopClient(): Promise<void> {
+        this.settingsWatcher?.dispose();
+        this.settingsWatcher = undefined;
+        this.featureWatcher?.dispose();
+        this.featureWatcher = undefined;
+        this.featureToggles.clear();
+        if (this.client) {
+            this.stopping = true;
+            try {
+                await this.client.stop();
+                this.client.dispose();
+            } catch (error) {
+                console.warn('Error stopping LSP client:', error);
+            } finally {
+                this.serverProcess?.kill();
+                this.serverProcess = undefined;
+                this.client = undefined;
+                this.stopping = false;
+            }
+        }
+    }
+
+    async restart(): Promise<void> {
+        // A restart requested by the user or the environment manager starts a fresh crash history
+        this.stopRequested = false;
+        this.supervisor.reset();
+        try {
+            await this.restartServer();
+        } catch (error) {
+            this.handleStartFailure(error);
+        }
+    }
+
+    getClient(): LanguageClient | undefined {
+        return this.client;
+    }
+
+    getState(): ServerState {
+        return this.state;
+    }
+
+    /** Whether the client is connected, or connecting, to an external server over TCP. */
+    isExternal(): boolean {
+        return !!this.externalAddress;
+    }
+
+    /** Why the external server could not be reached, while reconnection attempts continue. */
+    getConnectionError(): Error | undefined {
+        return this.connectionError;
+    }
+
+    showLogs(): void {
+        this.outputChannel.show(true);
+    }
+
+    async dispose(): Promise<void> {
+        await this.stop();
+        this.outputChannel.dispose();
+        this.stateChanged.dispose();
+    }
+
+    // Spawns `jac lsp`, through the protocol recorder when enabled, or connects to an external server
+    private createServerOptions(
+        command: string,
+        args: string[],
+        address: ServerAddress | undefined,
+        recorder: ProtocolRecorder | undefined
+    ): ServerOptions {
+        if (address) {
+            return async () => {
+                const streams = await connectToServer(address);
+                this.outputChannel.appendLine(`Connected to Jac language server at ${address.host}:${address.port}`);
+                if (!recorder) return streams;
+                recorder.startSession(`tcp://${address.host}:${address.port}`, Date.now(), this.folder?.name);
+                return tapStreams(streams.reader, streams.writer, recorder, this.folder?.name);
+            };
+        }
+        if (recorder) {
+            return async () => {
+                const { child, streams } = spawnRecordedServer(
+                    command, args, recorder, this.outputChannel, this.folder?.name, this.folder?.uri.fsPath
+                );
+                this.serverProcess = child;
+                return streams;
+            };
+        }
+        const options = { cwd: this.folder?.uri.fsPath };
+        return {
+            run: { command, args, options },
+            debug: { command, args, options }
+        };
+    }
+
+    // An external server may simply not be up yet, so wait for it instead of failing
+    private handleStartFailure(error: unknown): void {
+        if (!this.externalAddress) throw error;
+        this.connectionError = error instanceof Error ? error : new Error(String(error));
+        this.outputChannel.appendLine(`${(error as Error).message || error}. Retrying every ${RECONNECT_DELAY_MS / 1000}s`);
+        this.scheduleReconnect(this.externalAddress);
+    }
+
+    // Folder servers only see files under their folder; the window-wide server sees all Jac files
+    private getDocumentSelector(): DocumentSelector {
+        // A relative pattern matches whatever the path separators or glob characters in the folder
+        // path. The client matches selectors with vscode.languages.match, which accepts one, even
+        // though the protocol typings only allow string patterns.
+        const files: vscode.DocumentFilter = this.folder
+            ? { scheme: 'file', language: 'jac', pattern: new vscode.RelativePattern(this.folder, '**/*') }
+            : { scheme: 'file', language: 'jac' };
+        const filters = this.servesNonFileDocuments ? [files, ...getNonFileDocumentFilters()] : [files];
+        return filters as DocumentSelector;
+    }
+
+    private async restartServer(): Promise<void> {
+        this.cancelScheduledRestart();
+        await this.stopClient();
+        this.setState('stopped');
+        // Small delay to ensure proper cleanup before restarting
+        await new Promise(resolve => setTimeout(resolve, 500));
+        await this.startClient();
+    }
+
+    // An external server is expected to come and go while it is being debugged, so keep trying
+    private scheduleReconnect(address: ServerAddress): void {
+        this.cancelScheduledRestart();
+        this.restartTimer = setTimeout(() => {
+            this.restartTimer = undefined;
+            if (this.stopRequested) return;
+            this.restartServer().catch(() => {
+                if (!this.stopRequested) this.scheduleReconnect(address);
+            });
+        }, RECONNECT_DELAY_MS);
+    }
+
+    // Called by the client whenever the server connection closes, expected or not
+    private handleServerExit(): CloseHandlerResult {
+        if (this.stopping) {
+            return { action: CloseAction.DoNotRestart, handled: true };
+        }
+
+        if (this.externalAddress) {
+            this.outputChannel.appendLine(
+                `Lost connection to ${this.externalAddress.host}:${this.externalAddress.port}, reconnecting every ${RECONNECT_DELAY_MS / 1000}s`
+            );
+            this.setState('crashed');
+            this.scheduleReconnect(this.externalAddress);
+            return { action: CloseAction.DoNotRestart, handled: true };
+        }
+
+        this.superviseCrash('exited unexpectedly');
+        // We restart on our own schedule, and report crashes ourselves
+        return { action: CloseAction.DoNotRestart, handled: true };
+    }
+
+    // Counts a crash and restarts with back-off, or gives up and tells the user
+    private superviseCrash(reason: string): void {
+        this.supervisedCrashes++;
+        const decision = this.supervisor.recordCrash();
+        this.setState('crashed');
+        if (decision.restart) {
+            this.outputChannel.appendLine(
+                `[supervisor] Jac language server ${reason} (crash ${decision.crashCount}), restarting in ${decision.delayMs / 1000}s`
+            );
+            this.cancelScheduledRestart();
+            this.restartTimer = setTimeout(() => {
+                this.restartTimer = undefined;
+                const crashes = this.supervisedCrashes;
+                this.restartServer().catch(error => {
+                    // The close handler may already have counted this failure
+                    if (this.stopRequested || this.supervisedCrashes !== crashes) return;
+                    this.superviseCrash(`failed to restart: ${error.message || error}`);
+                });
+            }, decision.delayMs);
+        } else {
+            this.outputChannel.appendLine(`[supervisor] Giving up after ${decision.crashCount} crashes`);
+            vscode.window.showErrorMessage(
+                `The ${this.displayName} crashed ${decision.crashCount} times in a short period and will not be restarted automatically.`,
+                RESTART_ACTION, SHOW_LOGS_ACTION, CHANGE_ENV_ACTION
+            ).then(choice => runServerAction(choice, this));
+        }
+    }
+
+    private cancelScheduledRestart(): void {
+        if (this.restartTimer) {
+            clearTimeout(this.restartTimer);
+            this.restartTimer = undefined;
+        }
+    }
+
+    private setState(state: ServerState): void {
+        this.state = state;
+        this.stateChanged.fire(state);
+    }
+}
+
+/**
+ * Runs one of the actions offered for a server: restart, show logs or change environment.
+ */
+export async function runServerAction(choice: string | undefined, server: JacServer | undefined): Promise<void> {
+    if (choice === RESTART_ACTION) {
+        await vscode.commands.executeCommand(COMMANDS.RESTART_LSP);
+    } else if (choice === SHOW_LOGS_ACTION) {
+        server?.showLogs();
+    } else if (choice === CHANGE_ENV_ACTION) {
+        await vscode.commands.executeCommand(COMMANDS.SELECT_ENV);
+    }
+}
+
+// Rewrites file URIs between the host and the server's view of the file system
+function createUriConverters(mappings: PathMapping[]): LanguageClientOptions['uriConverters'] {
+    return {
+        code2Protocol: (uri: vscode.Uri) => uri.scheme === 'file'
+            ? vscode.Uri.file(toRemotePath(uri.fsPath, mappings)).toString()
+            : uri.toString(),
+        protocol2Code: (value: string) => {
+            const uri = vscode.Uri.parse(value);
+            return uri.scheme === 'file' ? vscode.Uri.file(toLocalPath(uri.path, mappings)) : uri;
+        },
+    };
+}
@@ -1,77 +1,373 @@
 // lsp/manager.ts
 import * as vscode from 'vscode';
-import { LanguageClient, LanguageClientOptions, ServerOptions } from 'vscode-languageclient/node';
+import { LanguageClient } from 'vscode-languageclient/node';
 import type { EnvManager } from '../environment/manager';
+import { ServerState } from './supervisor';
+import { ProtocolRecorder } from './protocolRecorder';
+import { JacServer, runServerAction, RESTART_ACTION, SHOW_LOGS_ACTION, CHANGE_ENV_ACTION } from './jacServer';
+import { getExternalServerAddress, SERVER_ADDRESS_SETTING } from './externalServer';
+import { isServedJacDocument } from './documentSchemes';
+import { COMMANDS } from '../constants';
 
+// Key of the server used when the window has no workspace folders, or for an external server
+const DEFAULT_SERVER_KEY = '';
+
+export const IDLE_TIMEOUT_SETTING = 'languageServerIdleTimeout';
+
+const STATE_LABELS: Record<ServerState, { icon: string; label: string }> = {
+    starting: { icon: '$(loading~spin)', label: 'starting' },
+    running: { icon: '$(zap)', label: 'running' },
+    crashed: { icon: '$(error)', label: 'crashed' },
+    stopped: { icon: '$(circle-slash)', label: 'stopped' },
+};
+
+/**
+ * Runs one Jac language server per workspace folder, each with that folder's environment,
+ * and routes documents to the server of the folder they belong to. Untitled, virtual and
+ * revision documents go to the server of the first workspace folder.
+ *
+ * When an idle timeout is configured, all servers are stopped once no Jac document has been
+ * open for that long, and started again as soon as one is opened.
+ */
 export class LspManager {
-    private client: LanguageClient | undefined;
+    private servers = new Map<string, JacServer>();
     private envManager: EnvManager;
-    private outputChannel: vscode.OutputChannel | undefined;
+    private traceDir: string | undefined;
+    private recorder: ProtocolRecorder | undefined;
+    private statusItem: vscode.StatusBarItem;
+    private idleTimer: NodeJS.Timeout | undefined;
+    // Set while the servers are stopped for lack of open Jac documents
+    private idle = false;
+    private disposables: vscode.Disposable[] = [];
 
-    constructor(envManager: EnvManager) {
+    /**
+     * @param envManager Resolves the Jac executable each server is started with.
+     * @param traceDir Where protocol recordings are written in developer mode.
+     */
+    constructor(envManager: EnvManager, traceDir?: string) {
         this.envManager = envManager;
+        this.traceDir = traceDir;
+        this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.statusItem.command = COMMANDS.SERVER_ACTIONS;
+        this.updateStatusItem();
+
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.handleDocumentOpened(document)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (isServedJacDocument(document)) this.updateIdleTimer();
+            }),
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusItem()),
+            vscode.workspace.onDidChangeWorkspaceFolders(event => this.handleFoldersChanged(event)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(`jaclang-extension.${SERVER_ADDRESS_SETTING}`)
+                    || event.affectsConfiguration('jaclang-extension.developerMode')) {
+                    this.handleConnectionModeChanged();
+                }
+                if (event.affectsConfiguration(`jaclang-extension.${IDLE_TIMEOUT_SETTING}`)) {
+                    this.updateIdleTimer();
+                }
+            })
+        );
     }
 
     public async start(): Promise<void> {
-        if (this.client) {
+        if (this.servers.size > 0) {
             vscode.window.showWarningMessage("LSP client already running. Restart instead.");
             return;
         }
 
-        const jacPath = this.envManager.getJacPath();
+        await this.startInitialServers();
+        this.reportStarted();
+        this.updateIdleTimer();
+    }
+
+    public async stop(): Promise<void> {
+        this.idle = false;
+        this.cancelIdleTimer();
+        const servers = Array.from(this.servers.values());
+        this.servers.clear();
+        await Promise.all(servers.map(server => server.dispose()));
+        this.updateStatusItem();
+    }
+
+    public async restart(): Promise<void> {
+        try {
+            const servers = Array.from(this.servers.values());
+            if (servers.length > 0) {
+                await Promise.all(servers.map(server => server.restart()));
+            } else {
+                this.idle = false;
+                await this.startInitialServers();
+            }
+            this.updateIdleTimer();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to restart Jac Language Server: ${error}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Restarts the servers whose folder `filter` accepts, such as those running from an
+     * environment that was just upgraded. The window-wide server is passed `undefined`.
+     * @returns How many servers were restarted.
+     */
+    public async restartServers(filter: (folder: vscode.WorkspaceFolder | undefined) => boolean): Promise<number> {
+        const servers = Array.from(this.servers.values()).filter(server => filter(server.folder));
+        await Promise.all(servers.map(server => server.restart()));
+        return servers.length;
+    }
+
+    /**
+     * Returns the client serving `resource`, or the active document's folder.
+     */
+    public getClient(resource?: vscode.Uri): LanguageClient | undefined {
+        return this.getServer(resource)?.getClient();
+    }
+
+    public getState(resource?: vscode.Uri): ServerState {
+        return this.getServer(resource)?.getState() ?? 'stopped';
+    }
 
-        const serverOptions: ServerOptions = {
-            run: { command: jacPath, args: ['lsp'] },
-            debug: { command: jacPath, args: ['lsp'] }
-        };
+    public showLogs(): void {
+        this.getServer()?.showLogs();
+    }
 
-        this.outputChannel = vscode.window.createOutputChannel('Jac Language Server');
-        const clientOptions: LanguageClientOptions = {
-            documentSelector: [{ scheme: 'file', language: 'jac' }],
-            outputChannel: this.outputChannel,
-        };
-        this.client = new LanguageClient(
-            'jacLanguageServer',
-            'Jac Language Server',
-            serverOptions,
-            clientOptions
+    /**
+     * Offers the actions behind the server status bar item: restart, show logs and change environment.
+     */
+    public async showActions(): Promise<void> {
+        const server = this.getServer();
+        const choice = await vscode.window.showQuickPick(
+            [RESTART_ACTION, SHOW_LOGS_ACTION, CHANGE_ENV_ACTION],
+            { placeHolder: `${server?.displayName ?? 'Jac Language Server'} is ${server?.getState() ?? 'stopped'}` }
         );
+        await runServerAction(choice, server);
+    }
 
-        await this.client.start();
-        vscode.window.showInformationMessage('Jac Language Server started!');
+    public async dispose(): Promise<void> {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        await this.stop();
+        this.statusItem.dispose();
     }
 
-    public async stop(): Promise<void> {
-        if (this.client) {
-            try {
-                // Properly dispose of the client to clean up output channels
-                await this.client.stop();
-                this.client.dispose();
-            } catch (error) {
-                console.warn('Error stopping LSP client:', error);
-            } finally {
-                this.client = undefined;
+    // A single window-wide server is used without folders, and for an external server, which accepts one client
+    private usesSingleServer(): boolean {
+        return !vscode.workspace.workspaceFolders?.length || !!getExternalServerAddress();
+    }
+
+    private async startInitialServers(): Promise<void> {
+        await Promise.all(this.getInitialFolders().map(folder => this.startServer(folder)));
+    }
+
+    // Folders of the Jac files already open, or the active folder so a server is ready for the first file
+    private getInitialFolders(): Array<vscode.WorkspaceFolder | undefined> {
+        if (this.usesSingleServer()) return [undefined];
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+
+        const folders = new Map<string, vscode.WorkspaceFolder>();
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.languageId !== 'jac') continue;
+            const folder = document.uri.scheme === 'file' ? this.getServingFolder(document.uri) : this.getPrimaryFolder();
+            if (folder) folders.set(folder.uri.toString(), folder);
+        }
+        if (folders.size === 0) {
+            const active = this.envManager.resolveFolder();
+            return [(active && this.getServingFolder(active.uri)) ?? workspaceFolders[0]];
+        }
+        return Array.from(folders.values());
+    }
+
+    /**
+     * The folder whose server handles `uri`: the outermost workspace folder containing it,
+     * so nested folders do not get a second server for the same files.
+     */
+    private getServingFolder(uri: vscode.Uri): vscode.WorkspaceFolder | undefined {
+        let folder = vscode.workspace.getWorkspaceFolder(uri);
+        while (folder) {
+            const parentUri = vscode.Uri.joinPath(folder.uri, '..');
+            const parent = parentUri.toString() !== folder.uri.toString()
+                ? vscode.workspace.getWorkspaceFolder(parentUri)
+                : undefined;
+            if (!parent) break;
+            folder = parent;
+        }
+        return folder;
+    }
+
+    // The server that also handles documents outside the file system
+    private getPrimaryFolder(): vscode.WorkspaceFolder | undefined {
+        const first = vscode.workspace.workspaceFolders?.[0];
+        return this.usesSingleServer() || !first ? undefined : this.getServingFolder(first.uri);
+    }
+
+    private getServer(resource?: vscode.Uri): JacServer | undefined {
+        if (this.usesSingleServer()) {
+            return this.servers.get(DEFAULT_SERVER_KEY);
+        }
+        const uri = resource ?? vscode.window.activeTextEditor?.document.uri ?? this.envManager.resolveFolder()?.uri;
+        if (uri && uri.scheme !== 'file') {
+            return this.servers.get(this.getPrimaryFolder()?.uri.toString() ?? DEFAULT_SERVER_KEY);
+        }
+        const folder = uri ? this.getServingFolder(uri) : undefined;
+        return folder ? this.servers.get(folder.uri.toString()) : undefined;
+    }
+
+    private async startServer(folder: vscode.WorkspaceFolder | undefined): Promise<void> {
+        const key = folder?.uri.toString() ?? DEFAULT_SERVER_KEY;
+        if (this.servers.has(key)) return;
+
+        // Registered before starting, so a server that fails to start can still be restarted
+        const primaryKey = this.getPrimaryFolder()?.uri.toString() ?? DEFAULT_SERVER_KEY;
+        const server = new JacServer(folder, this.envManager, () => this.getRecorder(), key === primaryKey);
+        this.servers.set(key, server);
+        server.onDidChangeState(() => this.updateStatusItem());
+        await server.start();
+    }
+
+    private getRecorder(): ProtocolRecorder | undefined {
+        if (!this.recorder && this.traceDir) {
+            this.recorder = new ProtocolRecorder(this.traceDir);
+        }
+        return this.recorder;
+    }
+
+    // Starts the server of a folder on the first Jac file opened in it; other schemes need the primary server
+    private handleDocumentOpened(document: vscode.TextDocument): void {
+        if (!isServedJacDocument(document)) return;
+        this.cancelIdleTimer();
+        if (this.idle) {
+            this.resumeFromIdle();
+            return;
+        }
+        if (this.servers.size === 0 || this.usesSingleServer()) return;
+
+        const folder = document.uri.scheme === 'file' ? this.getServingFolder(document.uri) : this.getPrimaryFolder();
+        if (folder && !this.servers.has(folder.uri.toString())) {
+            this.startServer(folder).catch(error => {
+                vscode.window.showErrorMessage(`Failed to start Jac Language Server for ${folder.name}: ${error.message || error}`);
+            });
+        }
+    }
+
+    private async handleFoldersChanged(event: vscode.WorkspaceFoldersChangeEvent): Promise<void> {
+        const wasRunning = this.servers.size > 0;
+        const removed = event.removed.map(folder => folder.uri.toString());
+        // Leaving a folderless window retires the window-wide server in favour of folder servers
+        if (!this.usesSingleServer()) {
+            removed.push(DEFAULT_SERVER_KEY);
+        }
+
+        for (const key of removed) {
+            const server = this.servers.get(key);
+            if (server) {
+                this.servers.delete(key);
+                await server.dispose();
             }
-            if (this.outputChannel) {
-                this.outputChannel.dispose();
-                this.outputChannel = undefined;
+        }
+        if (wasRunning && this.servers.size === 0) {
+            try {
+                await this.startInitialServers();
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to start Jac Language Server: ${error.message || error}`);
             }
         }
+        this.updateStatusItem();
     }
 
-    public async restart(): Promise<void> {
+    // Switching between spawned and external servers changes which servers exist, so start over
+    private async handleConnectionModeChanged(): Promise<void> {
+        const external = !!getExternalServerAddress();
+        const wasExternal = Array.from(this.servers.values()).some(server => server.isExternal());
+        if (this.servers.size === 0 || (!external && !wasExternal)) return;
+
+        await this.stop();
         try {
-            await this.stop();
-            // Small delay to ensure proper cleanup before restarting
-            await new Promise(resolve => setTimeout(resolve, 500));
-            await this.start();
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to restart Jac Language Server: ${error}`);
-            throw error;
+            await this.startInitialServers();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to start Jac Language Server: ${error.message || error}`);
+        }
+    }
+
+    // Servers that failed to start have thrown already; an external server keeps retrying instead
+    private reportStarted(): void {
+        const servers = Array.from(this.servers.values());
+        const unreachable = servers.find(server => server.getConnectionError());
+        if (unreachable) {
+            vscode.window.showErrorMessage(
+                `Could not connect to the external Jac language server: ${unreachable.getConnectionError()!.message}. Retrying in the background.`,
+                SHOW_LOGS_ACTION
+            ).then(choice => runServerAction(choice, unreachable));
+        } else if (servers.length > 0 && servers.every(server => server.getState() === 'running')) {
+            vscode.window.showInformationMessage('Jac Language Server started!');
+        }
+    }
+
+    private getIdleTimeoutMinutes(): number {
+        const minutes = vscode.workspace.getConfiguration('jaclang-extension').get<number>(IDLE_TIMEOUT_SETTING, 0);
+        return typeof minutes === 'number' && minutes > 0 ? minutes : 0;
+    }
+
+    // Arms the idle shutdown while servers run without any open Jac document, and disarms it otherwise
+    private updateIdleTimer(): void {
+        this.cancelIdleTimer();
+        const minutes = this.getIdleTimeoutMinutes();
+        if (minutes === 0 || this.servers.size === 0 || vscode.workspace.textDocuments.some(isServedJacDocument)) return;
+
+        this.idleTimer = setTimeout(() => {
+            this.idleTimer = undefined;
+            this.stop()
+                .then(() => {
+                    this.idle = true;
+                    // A Jac document opened while the servers were stopping found none to route to
+                    if (vscode.workspace.textDocuments.some(isServedJacDocument)) {
+                        this.resumeFromIdle();
+                    }
+                    this.updateStatusItem();
+                })
+                .catch(error => console.warn('Failed to stop idle Jac Language Server:', error));
+        }, minutes * 60 * 1000);
+    }
+
+    private cancelIdleTimer(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = undefined;
         }
     }
 
-    public getClient(): LanguageClient | undefined {
-        return this.client;
+    // Brings back the servers an idle shutdown stopped, without the start-up notification
+    private resumeFromIdle(): void {
+        this.idle = false;
+        this.startInitialServers().catch(error => {
+            vscode.window.showErrorMessage(`Failed to start Jac Language Server: ${error.message || error}`);
+        });
+    }
+
+    private updateStatusItem(): void {
+        if (this.idle) {
+            this.statusItem.text = `${STATE_LABELS.stopped.icon} Jac Server`;
+            this.statusItem.tooltip = 'Jac Language Server is stopped while no Jac files are open\nIt starts again when one is opened';
+            this.statusItem.backgroundColor = undefined;
+            this.statusItem.show();
+            return;
+        }
+        const server = this.getServer();
+        const state = server?.getState() ?? 'stopped';
+        const { icon, label } = STATE_LABELS[state];
+        const others = Array.from(this.servers.values())
+            .filter(other => other !== server)
+            .map(other => `${other.displayName} is ${STATE_LABELS[other.getState()].label}`);
+
+        this.statusItem.text = `${icon} Jac Server`;
+        this.statusItem.tooltip = [
+            `${server?.displayName ?? 'Jac Language Server'} is ${label}`,
+            ...others,
+            'Click for actions'
+        ].join('\n');
+        this.statusItem.backgroundColor = state === 'crashed'
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : undefined;
+        this.statusItem.show();
     }
-}
\ No newline at end of file
+}
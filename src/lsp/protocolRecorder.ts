@@ -0,0 +1,258 @@
+// lsp/protocolRecorder.ts
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Transform, TransformCallback } from 'stream';
+import { StreamInfo } from 'vscode-languageclient/node';
+
+export const RECORD_PROTOCOL_SETTING = 'recordProtocol';
+
+const TRACE_FILE_NAME = 'lsp-trace';
+const MAX_TRACE_BYTES = 5 * 1024 * 1024;
+const MAX_ROTATED_FILES = 3;
+
+/** One line of the recording: a JSON-RPC message, or the marker written when a server session starts. */
+export interface TraceEntry {
+    /** Milliseconds since the epoch. */
+    ts: number;
+    kind: 'request' | 'response' | 'notification' | 'session';
+    /** `send` is client to server, `receive` is server to client. */
+    direction?: 'send' | 'receive';
+    id?: number | string;
+    method?: string;
+    /** For responses: time since the matching request. */
+    latencyMs?: number;
+    /** For session markers: the command line the server was started with. */
+    command?: string;
+    /** Workspace folder of the server, when one runs per folder. */
+    server?: string;
+    message?: unknown;
+}
+
+/**
+ * Whether protocol recording is on. It is a developer mode feature, so both settings must be enabled.
+ */
+export function isProtocolRecordingEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration('jaclang-extension');
+    return config.get<boolean>('developerMode', false) && config.get<boolean>(RECORD_PROTOCOL_SETTING, false);
+}
+
+/** Directory holding the recording and its rotated predecessors. */
+export function getTraceDirectory(context: vscode.ExtensionContext): string {
+    return path.join(context.logUri.fsPath, 'protocol');
+}
+
+function traceFile(dir: string, index = 0): string {
+    return path.join(dir, index === 0 ? `${TRACE_FILE_NAME}.jsonl` : `${TRACE_FILE_NAME}.${index}.jsonl`);
+}
+
+/**
+ * Appends JSON-RPC messages to a JSONL file with timestamps and request latencies,
+ * rotating it once it grows past `maxBytes`.
+ */
+export class ProtocolRecorder {
+    // Outstanding requests, keyed by server, direction and id
+    private pending = new Map<string, { ts: number; method: string }>();
+    private size: number;
+
+    constructor(private dir: string, private maxBytes = MAX_TRACE_BYTES, private maxFiles = MAX_ROTATED_FILES) {
+        fs.mkdirSync(dir, { recursive: true });
+        const file = traceFile(dir);
+        this.size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+    }
+
+    /**
+     * Marks the start of a new server session, which is what gets exported.
+     * @param server The server's workspace folder, when several servers share the recording.
+     */
+    startSession(command: string, now: number = Date.now(), server?: string): void {
+        // Requests left unanswered by the server's previous run will never complete
+        for (const key of Array.from(this.pending.keys())) {
+            if (key.startsWith(`${server ?? ''}:`)) this.pending.delete(key);
+        }
+        this.append({ ts: now, kind: 'session', command, server });
+    }
+
+    record(direction: 'send' | 'receive', message: any, now: number = Date.now(), server?: string): void {
+        const entry: TraceEntry = { ts: now, kind: 'notification', direction, server, message };
+        if (message.method !== undefined && message.id !== undefined) {
+            entry.kind = 'request';
+            entry.id = message.id;
+            entry.method = message.method;
+            this.pending.set(`${server ?? ''}:${direction}:${message.id}`, { ts: now, method: message.method });
+        } else if (message.method !== undefined) {
+            entry.method = message.method;
+        } else {
+            entry.kind = 'response';
+            entry.id = message.id;
+            // A response travels the opposite way to its request
+            const key = `${server ?? ''}:${direction === 'send' ? 'receive' : 'send'}:${message.id}`;
+            const request = this.pending.get(key);
+            if (request) {
+                entry.method = request.method;
+                entry.latencyMs = now - request.ts;
+                this.pending.delete(key);
+            }
+        }
+        this.append(entry);
+    }
+
+    private append(entry: TraceEntry): void {
+        const line = JSON.stringify(entry) + '\n';
+        const bytes = Buffer.byteLength(line);
+        if (this.size > 0 && this.size + bytes > this.maxBytes) {
+            this.rotate();
+        }
+        fs.appendFileSync(traceFile(this.dir), line);
+        this.size += bytes;
+    }
+
+    // Shifts every file up one index; the oldest one is overwritten
+    private rotate(): void {
+        for (let i = this.maxFiles - 1; i >= 0; i--) {
+            const from = traceFile(this.dir, i);
+            if (fs.existsSync(from)) {
+                fs.renameSync(from, traceFile(this.dir, i + 1));
+            }
+        }
+        this.size = 0;
+    }
+}
+
+/**
+ * Passes a JSON-RPC byte stream through unchanged while reporting every complete
+ * `Content-Length` framed message it carries.
+ */
+export class MessageTap extends Transform {
+    private buffer = Buffer.alloc(0);
+
+    constructor(private onMessage: (message: any) => void) {
+        super();
+    }
+
+    _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+        this.push(chunk);
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        this.drain();
+        callback();
+    }
+
+    private drain(): void {
+        for (;;) {
+            const headerEnd = this.buffer.indexOf('\r\n\r\n');
+            if (headerEnd < 0) return;
+            const match = /Content-Length:\s*(\d+)/i.exec(this.buffer.subarray(0, headerEnd).toString('ascii'));
+            const bodyStart = headerEnd + 4;
+            if (!match) {
+                this.buffer = this.buffer.subarray(bodyStart);
+                continue;
+            }
+            const bodyEnd = bodyStart + Number(match[1]);
+            if (this.buffer.length < bodyEnd) return;
+            const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+            this.buffer = this.buffer.subarray(bodyEnd);
+            try {
+                this.onMessage(JSON.parse(body));
+            } catch (error) {
+                // Recording must never disturb the connection itself
+                console.warn('Failed to record LSP message:', error);
+            }
+        }
+    }
+}
+
+/**
+ * Routes a connection through message taps that feed the recorder.
+ * @param server Label of the server's workspace folder, stored with each message.
+ */
+export function tapStreams(
+    reader: NodeJS.ReadableStream,
+    writer: NodeJS.WritableStream,
+    recorder: ProtocolRecorder,
+    server?: string
+): StreamInfo {
+    const toServer = new MessageTap(message => recorder.record('send', message, Date.now(), server));
+    const fromServer = new MessageTap(message => recorder.record('receive', message, Date.now(), server));
+    toServer.pipe(writer);
+    reader.pipe(fromServer);
+    // The client only watches the tapped streams, so the end of the connection must reach them
+    reader.on('close', () => fromServer.end());
+    return { writer: toServer, reader: fromServer };
+}
+
+/**
+ * Spawns the language server with its stdio routed through message taps that feed the recorder.
+ * @param outputChannel Receives the server's stderr, as it would without recording.
+ * @param server Label of the server's workspace folder, stored with each message.
+ * @param cwd The server's working directory, the same one it gets without recording.
+ */
+export function spawnRecordedServer(
+    command: string,
+    args: string[],
+    recorder: ProtocolRecorder,
+    outputChannel: vscode.OutputChannel,
+    server?: string,
+    cwd?: string
+): { child: cp.ChildProcess; streams: StreamInfo } {
+    const child = cp.spawn(command, args, { cwd, shell: false });
+    recorder.startSession([command, ...args].join(' '), Date.now(), server);
+
+    const streams = tapStreams(child.stdout!, child.stdin!, recorder, server);
+    child.stderr!.on('data', (data: Buffer) => outputChannel.append(data.toString()));
+    // Surface spawn failures and a dead server as a closed connection instead of an uncaught error
+    child.stdin!.on('error', error => console.warn('Jac language server stdin error:', error));
+    child.on('error', error => {
+        outputChannel.appendLine(`Failed to start ${command}: ${error.message}`);
+        (streams.reader as MessageTap).end();
+    });
+
+    return { child, streams };
+}
+
+/**
+ * Reads the recording, oldest rotated file first. Malformed lines are skipped.
+ */
+export function readTrace(dir: string, maxFiles = MAX_ROTATED_FILES): TraceEntry[] {
+    const entries: TraceEntry[] = [];
+    for (let i = maxFiles; i >= 0; i--) {
+        const file = traceFile(dir, i);
+        if (!fs.existsSync(file)) continue;
+        for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                // Partially written line from an interrupted session
+            }
+        }
+    }
+    return entries;
+}
+
+/**
+ * Keeps only the latest session of each server and shortens large payloads, so the
+ * recording is small enough to attach to an issue. With one server per workspace folder,
+ * each server's session is kept whole and listed as one block, in the order they started.
+ * @param maxPayloadChars Payloads whose JSON is longer than this are replaced by a truncated preview.
+ */
+export function trimTrace(entries: TraceEntry[], maxPayloadChars = 2000): TraceEntry[] {
+    const sessionStarts = new Map<string, number>();
+    entries.forEach((entry, index) => {
+        if (entry.kind === 'session') sessionStarts.set(entry.server ?? '', index);
+    });
+
+    // Messages recorded before any session marker of their server belong to its only session
+    const servers = Array.from(new Set(entries.map(entry => entry.server ?? '')))
+        .sort((a, b) => (sessionStarts.get(a) ?? -1) - (sessionStarts.get(b) ?? -1));
+    return servers
+        .flatMap(server => entries.filter((entry, index) =>
+            (entry.server ?? '') === server && index >= (sessionStarts.get(server) ?? 0)))
+        .map(entry => {
+            if (entry.message === undefined) return entry;
+            const payload = JSON.stringify(entry.message);
+            return payload.length > maxPayloadChars
+                ? { ...entry, message: { truncated: true, preview: payload.slice(0, maxPayloadChars) } }
+                : entry;
+        });
+}
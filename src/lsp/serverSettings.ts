@@ -0,0 +1,76 @@
+// lsp/serverSettings.ts
+import * as vscode from 'vscode';
+import { ConfigurationRequest, DidChangeConfigurationNotification, LanguageClient } from 'vscode-languageclient/node';
+
+/** Settings under this section are forwarded to the language server. */
+export const SERVER_SETTINGS_SECTION = 'jaclang-extension.server';
+
+export type TypeCheckMode = 'off' | 'basic' | 'strict';
+export type DiagnosticsTrigger = 'onType' | 'onSave';
+
+/**
+ * The settings the Jac language server receives as `initializationOptions`, in answer to
+ * `workspace/configuration` requests, and in `workspace/didChangeConfiguration` notifications.
+ */
+export interface JacServerSettings {
+    typeCheckMode: TypeCheckMode;
+    diagnosticsOn: DiagnosticsTrigger;
+    /** Glob patterns of files the server should not analyse. */
+    exclude: string[];
+    developerMode: boolean;
+}
+
+const TYPE_CHECK_MODES: TypeCheckMode[] = ['off', 'basic', 'strict'];
+const DIAGNOSTICS_TRIGGERS: DiagnosticsTrigger[] = ['onType', 'onSave'];
+
+/**
+ * Reads the server settings for a folder, replacing invalid values with their defaults.
+ * @param scope The folder or document the settings apply to.
+ */
+export function getServerSettings(scope?: vscode.Uri): JacServerSettings {
+    const config = vscode.workspace.getConfiguration('jaclang-extension', scope);
+    const typeCheckMode = config.get<TypeCheckMode>('server.typeCheckMode', 'basic');
+    const diagnosticsOn = config.get<DiagnosticsTrigger>('server.diagnosticsOn', 'onType');
+    const exclude = config.get<string[]>('server.exclude', []);
+
+    return {
+        typeCheckMode: TYPE_CHECK_MODES.includes(typeCheckMode) ? typeCheckMode : 'basic',
+        diagnosticsOn: DIAGNOSTICS_TRIGGERS.includes(diagnosticsOn) ? diagnosticsOn : 'onType',
+        exclude: Array.isArray(exclude) ? exclude.filter(glob => typeof glob === 'string' && glob.trim() !== '') : [],
+        developerMode: config.get<boolean>('developerMode', false),
+    };
+}
+
+/** Whether a `workspace/configuration` item asks for the Jac server settings. */
+function isServerSection(section: string | undefined): boolean {
+    return section === SERVER_SETTINGS_SECTION || section === 'jac';
+}
+
+/**
+ * Answers `workspace/configuration` items for the Jac server section with the normalised
+ * settings, leaving every other section to the client's default handling.
+ * @param defaultScope Scope used when an item names no resource, i.e. the server's folder.
+ */
+export function createConfigurationMiddleware(defaultScope?: vscode.Uri): ConfigurationRequest.MiddlewareSignature {
+    return async (params, token, next) => {
+        const result = await next(params, token);
+        if (!Array.isArray(result)) return result;
+        return params.items.map((item, index) => isServerSection(item.section)
+            ? getServerSettings(item.scopeUri ? vscode.Uri.parse(item.scopeUri) : defaultScope)
+            : result[index]);
+    };
+}
+
+/**
+ * Pushes the settings to a running server whenever the user edits them.
+ * @param scope The folder whose settings the server uses.
+ */
+export function watchServerSettings(client: LanguageClient, scope?: vscode.Uri): vscode.Disposable {
+    return vscode.workspace.onDidChangeConfiguration(event => {
+        const affected = event.affectsConfiguration(SERVER_SETTINGS_SECTION, scope)
+            || event.affectsConfiguration('jaclang-extension.developerMode', scope);
+        if (!affected || !client.isRunning()) return;
+        client.sendNotification(DidChangeConfigurationNotification.type, { settings: getServerSettings(scope) })
+            .catch(error => console.warn('Failed to send Jac server settings:', error));
+    });
+}
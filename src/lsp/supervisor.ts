@@ -0,0 +1,62 @@
+// lsp/supervisor.ts
+
+/** Lifecycle state of the language server, as shown in the status bar. */
+export type ServerState = 'starting' | 'running' | 'crashed' | 'stopped';
+
+export interface SupervisorOptions {
+    /** Crashes tolerated within `windowMs` before giving up. */
+    maxCrashes: number;
+    /** Sliding window, in milliseconds, over which crashes are counted. */
+    windowMs: number;
+    /** Delay before the first restart; doubled after every further crash in the window. */
+    initialDelayMs: number;
+    /** Upper bound for the restart delay. */
+    maxDelayMs: number;
+}
+
+export interface RestartDecision {
+    restart: boolean;
+    /** How long to wait before restarting; 0 when giving up. */
+    delayMs: number;
+    /** Crashes counted in the current window, including this one. */
+    crashCount: number;
+}
+
+export const DEFAULT_SUPERVISOR_OPTIONS: SupervisorOptions = {
+    maxCrashes: 5,
+    windowMs: 3 * 60 * 1000,
+    initialDelayMs: 1000,
+    maxDelayMs: 30 * 1000,
+};
+
+/**
+ * Decides whether an exited language server should be restarted, backing off
+ * exponentially and giving up after too many crashes in a short window.
+ */
+export class CrashSupervisor {
+    private crashTimes: number[] = [];
+
+    constructor(private options: SupervisorOptions = DEFAULT_SUPERVISOR_OPTIONS) {}
+
+    /**
+     * Records an unexpected server exit.
+     * @param now Timestamp of the exit, in milliseconds.
+     * @returns Whether to restart, and after which delay.
+     */
+    recordCrash(now: number = Date.now()): RestartDecision {
+        this.crashTimes = this.crashTimes.filter(time => now - time < this.options.windowMs);
+        this.crashTimes.push(now);
+
+        const crashCount = this.crashTimes.length;
+        if (crashCount >= this.options.maxCrashes) {
+            return { restart: false, delayMs: 0, crashCount };
+        }
+        const delayMs = Math.min(this.options.initialDelayMs * 2 ** (crashCount - 1), this.options.maxDelayMs);
+        return { restart: true, delayMs, crashCount };
+    }
+
+    /** Forgets past crashes, e.g. after the user restarts the server by hand. */
+    reset(): void {
+        this.crashTimes = [];
+    }
+}
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EnvManager } from '../environment/manager';
+import { resolveConfiguredPath } from '../environment/projectConfig';
+
+export const JAC_TASK_TYPE = 'jac';
+
+// Contributed in package.json under `problemMatchers`. Problem patterns have no optional lines,
+// so tracebacks with Python 3.11+ caret lines under the code need a matcher of their own.
+export const JAC_PROBLEM_MATCHERS = ['$jac', '$jac-traceback', '$jac-traceback-carets'];
+
+export type JacTaskCommand = 'run' | 'serve' | 'test' | 'check' | 'build' | 'clean';
+
+const FILE_COMMANDS: JacTaskCommand[] = ['run', 'serve', 'test', 'check', 'build'];
+
+/** The `jac` task definition as written in tasks.json. */
+export interface JacTaskDefinition extends vscode.TaskDefinition {
+    command: JacTaskCommand;
+    /** The Jac file to pass, relative to the workspace folder; `${file}` is the active editor's file. */
+    file?: string;
+    /** Extra arguments appended after the file. */
+    args?: string[];
+}
+
+const TASK_GROUPS: Partial<Record<JacTaskCommand, vscode.TaskGroup>> = {
+    build: vscode.TaskGroup.Build,
+    check: vscode.TaskGroup.Build,
+    test: vscode.TaskGroup.Test,
+    clean: vscode.TaskGroup.Clean,
+};
+
+/**
+ * Builds the `jac <command> [file] [args]` arguments for a task. `run` also receives the
+ * `[run] args` of jac.toml, as the Run command does.
+ */
+export function buildTaskArgs(definition: JacTaskDefinition, filePath: string | undefined, projectArgs: string[] = []): string[] {
+    const args: string[] = [definition.command];
+    if (filePath && definition.command !== 'clean') args.push(filePath);
+    if (definition.command === 'run') args.push(...projectArgs);
+    return [...args, ...(definition.args ?? [])];
+}
+
+/**
+ * Offers `jac` tasks for the active Jac file and for each folder's jac.toml entry point, and
+ * resolves the ones configured in tasks.json. Tasks run the selected environment's `jac`
+ * directly, through the command template when one is set.
+ */
+export class JacTaskProvider implements vscode.TaskProvider {
+    constructor(private envManager: EnvManager) {}
+
+    provideTasks(): vscode.Task[] {
+        const tasks: vscode.Task[] = [];
+        const document = vscode.window.activeTextEditor?.document;
+        if (document?.languageId === 'jac' && document.uri.scheme === 'file') {
+            const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+            for (const command of FILE_COMMANDS) {
+                const file = folder ? path.relative(folder.uri.fsPath, document.uri.fsPath) : document.uri.fsPath;
+                tasks.push(this.createTask({ type: JAC_TASK_TYPE, command, file }, folder, document.uri.fsPath));
+            }
+        }
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const entryPoint = this.envManager.getProjectConfig(folder.uri)?.entryPoint;
+            if (entryPoint && entryPoint !== document?.uri.fsPath) {
+                for (const command of FILE_COMMANDS) {
+                    const file = path.relative(folder.uri.fsPath, entryPoint);
+                    tasks.push(this.createTask({ type: JAC_TASK_TYPE, command, file }, folder, entryPoint));
+                }
+            }
+            tasks.push(this.createTask({ type: JAC_TASK_TYPE, command: 'clean' }, folder, undefined));
+        }
+        return tasks;
+    }
+
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as JacTaskDefinition;
+        if (!definition.command) return undefined;
+
+        const folder = typeof task.scope === 'object' ? task.scope : undefined;
+        return this.createTask(definition, folder, this.resolveFile(definition.file, folder), task.name);
+    }
+
+    private resolveFile(file: string | undefined, folder: vscode.WorkspaceFolder | undefined): string | undefined {
+        if (!file) return undefined;
+        if (file.includes('${file}')) {
+            const active = vscode.window.activeTextEditor?.document.uri.fsPath ?? '';
+            file = file.replace(/\$\{file\}/g, active);
+        }
+        const resolved = resolveConfiguredPath(file, folder);
+        return folder && !path.isAbsolute(resolved) ? path.join(folder.uri.fsPath, resolved) : resolved;
+    }
+
+    private createTask(
+        definition: JacTaskDefinition,
+        folder: vscode.WorkspaceFolder | undefined,
+        filePath: string | undefined,
+        name?: string
+    ): vscode.Task {
+        const resource = filePath ? vscode.Uri.file(filePath) : folder?.uri;
+        const projectArgs = this.envManager.getProjectConfig(resource)?.args ?? [];
+        const { command, args } = this.envManager.getJacCommand(buildTaskArgs(definition, filePath, projectArgs), resource);
+
+        const task = new vscode.Task(
+            definition,
+            folder ?? vscode.TaskScope.Workspace,
+            name ?? (definition.file ? `${definition.command} ${definition.file}` : definition.command),
+            JAC_TASK_TYPE,
+            new vscode.ProcessExecution(command, args, { cwd: folder?.uri.fsPath }),
+            JAC_PROBLEM_MATCHERS
+        );
+        task.group = TASK_GROUPS[definition.command];
+        return task;
+    }
+}
+
+export function registerJacTasks(context: vscode.ExtensionContext, envManager: EnvManager) {
+    context.subscriptions.push(vscode.tasks.registerTaskProvider(JAC_TASK_TYPE, new JacTaskProvider(envManager)));
+}
@@ -0,0 +1,405 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as path from 'path';
+import type { EnvManager } from '../environment/manager';
+import { tokenizeContent } from '../commands/inspectTokenScopes';
+import { isUnsavedBufferCopy } from '../utils/bufferRunner';
+
+export const TEST_CONTROLLER_ID = 'jacTests';
+
+// Delay before re-reading the tests of a document being edited
+const EDIT_DEBOUNCE_MS = 500;
+
+// Folders never holding tests of the project itself
+const EXCLUDED_FOLDERS = '**/{node_modules,.venv,venv,__jac_gen__,.jac,site-packages}/**';
+const EXCLUDED_FOLDER_PATTERN = /[\\/](?:node_modules|\.venv|venv|__jac_gen__|\.jac|site-packages)[\\/]/;
+
+/**
+ * Whether a Jac file belongs to the project's tests. Files in `EXCLUDED_FOLDERS` and the
+ * copies written to run unsaved buffers do not.
+ */
+export function isProjectTestFile(filePath: string): boolean {
+    return !EXCLUDED_FOLDER_PATTERN.test(filePath) && !isUnsavedBufferCopy(filePath);
+}
+
+/** A `test` block found in a Jac file. */
+export interface TestBlock {
+    /** The identifier of a named test, used to run it alone. */
+    name?: string;
+    label: string;
+    /** 0-based line of the `test` keyword. */
+    line: number;
+}
+
+export type TestStatus = 'passed' | 'failed' | 'errored' | 'skipped';
+
+/** The result of one test as reported by `jac test`. */
+export interface TestOutcome {
+    name: string;
+    status: TestStatus;
+    message?: string;
+    /** The traceback frames of a failure, outermost first. */
+    frames?: Array<{ file: string; line: number }>;
+}
+
+/**
+ * Finds the test blocks of a Jac file with the TextMate grammar, so tests inside comments
+ * and strings are ignored. Anonymous and string-described tests get a label but no name.
+ */
+export async function findTestBlocks(content: string, grammarPath: string, wasmPath: string): Promise<TestBlock[]> {
+    const { tokens } = await tokenizeContent(content, grammarPath, wasmPath);
+    const blocks: TestBlock[] = [];
+
+    tokens.forEach((token, index) => {
+        if (token.text !== 'test' || !token.scopes.includes('storage.type.class.jac')) return;
+        const next = tokens[index + 1];
+        const line = token.line - 1;
+
+        if (next?.line === token.line && next.scopes.includes('entity.name.type.class.jac')) {
+            blocks.push({ name: next.text, label: next.text, line });
+        } else if (next?.line === token.line && next.scopes.includes('punctuation.definition.string.begin.jac')) {
+            const description = tokens[index + 2];
+            blocks.push({ label: description?.text ?? `test at line ${token.line}`, line });
+        } else {
+            blocks.push({ label: `test at line ${token.line}`, line });
+        }
+    });
+    return blocks;
+}
+
+const RESULT_LINE = /^(\S+) \(.*?\)(?:\s.*)? \.\.\. (ok|FAIL|ERROR|skipped.*)$/;
+const FAILURE_HEADER = /^(FAIL|ERROR): (\S+)/;
+const TRACEBACK_FRAME = /^\s*File "(.+)", line (\d+)/;
+
+/**
+ * Reads the unittest-style report of `jac test`: one `name (...) ... ok` line per test in
+ * verbose mode, then a block per failure with its traceback.
+ */
+export function parseTestOutput(output: string): TestOutcome[] {
+    const outcomes = new Map<string, TestOutcome>();
+    const lines = output.split(/\r?\n/);
+    const statuses: Record<string, TestStatus> = { ok: 'passed', FAIL: 'failed', ERROR: 'errored' };
+
+    for (const line of lines) {
+        const result = RESULT_LINE.exec(line);
+        if (result) {
+            outcomes.set(result[1], { name: result[1], status: statuses[result[2]] ?? 'skipped' });
+        }
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        const header = FAILURE_HEADER.exec(lines[i]);
+        if (!header) continue;
+
+        const body: string[] = [];
+        const frames: NonNullable<TestOutcome['frames']> = [];
+        // The block runs from the dashed rule below the header to the next rule
+        for (i += 2; i < lines.length && !/^(={20,}|-{20,})$/.test(lines[i]); i++) {
+            body.push(lines[i]);
+            const frame = TRACEBACK_FRAME.exec(lines[i]);
+            if (frame) frames.push({ file: frame[1], line: Number(frame[2]) });
+        }
+        i--;
+        outcomes.set(header[2], {
+            name: header[2],
+            status: header[1] === 'FAIL' ? 'failed' : 'errored',
+            message: body.join('\n').trim(),
+            frames,
+        });
+    }
+    return Array.from(outcomes.values());
+}
+
+/** The outcome reported for a test block; unittest prefixes the generated method names. */
+export function findOutcome(outcomes: TestOutcome[], block: TestBlock): TestOutcome | undefined {
+    if (!block.name) return undefined;
+    const name = block.name;
+    return outcomes.find(outcome => outcome.name === name || outcome.name.endsWith(`_${name}`));
+}
+
+/**
+ * Shows the Jac test blocks of the workspace in the Test Explorer and runs them with the
+ * selected environment's `jac test`, per file or one named test at a time.
+ */
+export class JacTestController {
+    private controller: vscode.TestController;
+    private blocks = new WeakMap<vscode.TestItem, TestBlock>();
+    private pendingEdits = new Map<string, NodeJS.Timeout>();
+    // Output and exit code of the debug sessions running tests, by the id in their configuration
+    private debugSessions = new Map<string, { run: vscode.TestRun; output: string; exitCode: number | null }>();
+    private debugSessionCount = 0;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private context: vscode.ExtensionContext, private envManager: EnvManager) {
+        this.controller = vscode.tests.createTestController(TEST_CONTROLLER_ID, 'Jac');
+        // Discovery waits until the Test Explorer asks for it
+        this.controller.resolveHandler = async item => {
+            if (!item) await this.discoverWorkspace();
+        };
+        this.controller.refreshHandler = () => this.discoverWorkspace();
+
+        this.controller.createRunProfile('Run', vscode.TestRunProfileKind.Run, (request, token) => this.runTests(request, token), true);
+        this.controller.createRunProfile('Debug', vscode.TestRunProfileKind.Debug, (request, token) => this.debugTests(request, token), true);
+
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.jac');
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => this.updateFile(uri)),
+            watcher.onDidChange(uri => this.updateFile(uri)),
+            watcher.onDidDelete(uri => this.controller.items.delete(uri.toString())),
+            vscode.debug.registerDebugAdapterTrackerFactory('debugpy', {
+                createDebugAdapterTracker: session => this.createDebugTracker(session),
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document.languageId === 'jac' && event.document.uri.scheme === 'file') {
+                    this.scheduleUpdate(event.document);
+                }
+            })
+        );
+    }
+
+    dispose(): void {
+        this.pendingEdits.forEach(timer => clearTimeout(timer));
+        this.pendingEdits.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.controller.dispose();
+    }
+
+    private async discoverWorkspace(): Promise<void> {
+        const files = await vscode.workspace.findFiles('**/*.jac', EXCLUDED_FOLDERS);
+        await Promise.all(files.map(uri => this.updateFile(uri)));
+    }
+
+    private scheduleUpdate(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        clearTimeout(this.pendingEdits.get(key));
+        this.pendingEdits.set(key, setTimeout(() => {
+            this.pendingEdits.delete(key);
+            this.updateFile(document.uri, document.getText());
+        }, EDIT_DEBOUNCE_MS));
+    }
+
+    // Rebuilds the tests of one file, dropping the file once it has none
+    private async updateFile(uri: vscode.Uri, content?: string): Promise<void> {
+        // The watcher also reports installed packages, and unsaved buffer copies would list tests twice
+        if (!isProjectTestFile(uri.fsPath)) return;
+        try {
+            const text = content ?? Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            const blocks = /\btest\b/.test(text)
+                ? await findTestBlocks(text, this.getGrammarPath(), this.getWasmPath())
+                : [];
+            if (blocks.length === 0) {
+                this.controller.items.delete(uri.toString());
+                return;
+            }
+
+            const fileItem = this.controller.items.get(uri.toString())
+                ?? this.controller.createTestItem(uri.toString(), vscode.workspace.asRelativePath(uri), uri);
+            fileItem.children.replace(blocks.map(block => {
+                const item = this.controller.createTestItem(`${uri.toString()}#${block.line}`, block.label, uri);
+                item.range = new vscode.Range(block.line, 0, block.line, 0);
+                this.blocks.set(item, block);
+                return item;
+            }));
+            this.controller.items.add(fileItem);
+        } catch (error) {
+            console.warn(`Failed to discover Jac tests in ${uri.fsPath}:`, error);
+        }
+    }
+
+    private getGrammarPath(): string {
+        return path.join(this.context.extensionPath, 'syntaxes', 'jac.tmLanguage.json');
+    }
+
+    private getWasmPath(): string {
+        return path.join(this.context.extensionPath, 'node_modules', 'vscode-oniguruma', 'release', 'onig.wasm');
+    }
+
+    // Groups the requested tests by file; a file item, or a test without a name, runs the whole file
+    private collectRuns(request: vscode.TestRunRequest): Array<{ file: vscode.TestItem; tests: vscode.TestItem[]; name?: string }> {
+        const requested: vscode.TestItem[] = [];
+        if (request.include) {
+            requested.push(...request.include);
+        } else {
+            this.controller.items.forEach(item => requested.push(item));
+        }
+        const excluded = new Set((request.exclude ?? []).map(item => item.id));
+
+        const runs: Array<{ file: vscode.TestItem; tests: vscode.TestItem[]; name?: string }> = [];
+        for (const item of requested) {
+            if (excluded.has(item.id)) continue;
+            const block = this.blocks.get(item);
+            if (!block) {
+                const tests: vscode.TestItem[] = [];
+                item.children.forEach(child => {
+                    if (!excluded.has(child.id)) tests.push(child);
+                });
+                runs.push({ file: item, tests });
+            } else {
+                runs.push({ file: item.parent ?? item, tests: [item], name: block.name });
+            }
+        }
+        return runs;
+    }
+
+    private async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        for (const { file, tests, name } of this.collectRuns(request)) {
+            if (token.isCancellationRequested || !file.uri) break;
+            tests.forEach(test => run.started(test));
+
+            const jacArgs = ['test', file.uri.fsPath, ...(name ? ['--test_name', name] : []), '--verbose'];
+            const { output, exitCode } = await this.runJac(jacArgs, file.uri, run, token);
+            this.reportResults(run, file.uri, tests, parseTestOutput(output), output, exitCode);
+        }
+        run.end();
+    }
+
+    private reportResults(
+        run: vscode.TestRun,
+        fileUri: vscode.Uri,
+        tests: vscode.TestItem[],
+        outcomes: TestOutcome[],
+        output: string,
+        exitCode: number | null
+    ): void {
+        for (const test of tests) {
+            const block = this.blocks.get(test);
+            const outcome = block ? findOutcome(outcomes, block) : undefined;
+            if (!outcome) {
+                // Unnamed or unreported tests take the result of the whole run
+                if (exitCode === 0) {
+                    run.passed(test);
+                } else {
+                    run.errored(test, new vscode.TestMessage(output.trim().split('\n').slice(-20).join('\n') || `jac test exited with code ${exitCode}`));
+                }
+                continue;
+            }
+
+            if (outcome.status === 'passed') {
+                run.passed(test);
+            } else if (outcome.status === 'skipped') {
+                run.skipped(test);
+            } else {
+                const message = new vscode.TestMessage(outcome.message ?? `${outcome.name} ${outcome.status}`);
+                // The deepest frame in the test file is where the test itself went wrong
+                const frame = (outcome.frames ?? []).filter(candidate => path.resolve(candidate.file) === path.resolve(fileUri.fsPath)).pop();
+                if (frame) {
+                    message.location = new vscode.Location(fileUri, new vscode.Position(frame.line - 1, 0));
+                } else if (test.range) {
+                    message.location = new vscode.Location(fileUri, test.range);
+                }
+                if (outcome.status === 'failed') {
+                    run.failed(test, message);
+                } else {
+                    run.errored(test, message);
+                }
+            }
+        }
+    }
+
+    // Runs jac, streaming its output to the test run, and collects stdout and stderr together
+    private runJac(
+        jacArgs: string[],
+        resource: vscode.Uri,
+        run: vscode.TestRun,
+        token: vscode.CancellationToken
+    ): Promise<{ output: string; exitCode: number | null }> {
+        const { command, args } = this.envManager.getJacCommand(jacArgs, resource);
+        const cwd = vscode.workspace.getWorkspaceFolder(resource)?.uri.fsPath ?? path.dirname(resource.fsPath);
+
+        return new Promise(resolve => {
+            let output = '';
+            const child = cp.spawn(command, args, { cwd, shell: false });
+            const collect = (data: Buffer) => {
+                const text = data.toString();
+                output += text;
+                run.appendOutput(text.replace(/\r?\n/g, '\r\n'));
+            };
+            const cancellation = token.onCancellationRequested(() => child.kill());
+
+            child.stdout?.on('data', collect);
+            child.stderr?.on('data', collect);
+            child.on('error', error => {
+                cancellation.dispose();
+                resolve({ output: `Failed to start jac: ${error.message}`, exitCode: null });
+            });
+            child.on('close', code => {
+                cancellation.dispose();
+                resolve({ output, exitCode: code });
+            });
+        });
+    }
+
+    // Debugging runs under debugpy on the host; its results are read from the debug console output
+    private async debugTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        for (const { file, tests, name } of this.collectRuns(request)) {
+            if (token.isCancellationRequested || !file.uri) break;
+            tests.forEach(test => run.started(test));
+
+            const id = `${process.pid}-${++this.debugSessionCount}`;
+            const session = { run, output: '', exitCode: null as number | null };
+            this.debugSessions.set(id, session);
+            let onTerminate: vscode.Disposable | undefined;
+            const terminated = new Promise<void>(resolve => {
+                onTerminate = vscode.debug.onDidTerminateDebugSession(ended => {
+                    if (ended.configuration.jacTestSession === id) resolve();
+                });
+            });
+            const cancellation = token.onCancellationRequested(() => {
+                const active = vscode.debug.activeDebugSession;
+                if (active?.configuration.jacTestSession === id) vscode.debug.stopDebugging(active);
+            });
+
+            try {
+                const started = await vscode.debug.startDebugging(vscode.workspace.getWorkspaceFolder(file.uri), {
+                    type: 'debugpy',
+                    request: 'launch',
+                    name: `Jac: Debug Tests in ${path.basename(file.uri.fsPath)}`,
+                    python: this.envManager.getPythonPath(file.uri),
+                    program: this.envManager.getJacPath(file.uri),
+                    args: ['test', file.uri.fsPath, ...(name ? ['--test_name', name] : []), '--verbose'],
+                    // The debug console delivers the output the results are read from
+                    console: 'internalConsole',
+                    justMyCode: true,
+                    jacTestSession: id,
+                }, { testRun: run });
+                if (started) {
+                    await terminated;
+                    this.reportResults(run, file.uri, tests, parseTestOutput(session.output), session.output, session.exitCode);
+                } else {
+                    tests.forEach(test => run.errored(test, new vscode.TestMessage('The debug session could not be started.')));
+                }
+            } finally {
+                onTerminate?.dispose();
+                cancellation.dispose();
+                this.debugSessions.delete(id);
+            }
+        }
+        run.end();
+    }
+
+    // Collects the output and exit code of debug sessions started for tests
+    private createDebugTracker(debugSession: vscode.DebugSession): vscode.DebugAdapterTracker | undefined {
+        const session = this.debugSessions.get(debugSession.configuration.jacTestSession);
+        if (!session) return undefined;
+        return {
+            onDidSendMessage: message => {
+                if (message.type !== 'event') return;
+                if (message.event === 'output' && message.body?.category !== 'telemetry') {
+                    const text = String(message.body?.output ?? '');
+                    session.output += text;
+                    session.run.appendOutput(text.replace(/\r?\n/g, '\r\n'));
+                } else if (message.event === 'exited') {
+                    session.exitCode = message.body?.exitCode ?? null;
+                }
+            },
+        };
+    }
+
+}
+
+export function registerTestController(context: vscode.ExtensionContext, envManager: EnvManager) {
+    context.subscriptions.push(new JacTestController(context, envManager));
+}
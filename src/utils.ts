@@ -1,2 +1,2 @@
 export { findPythonEnvsWithJac, validateJacExecutable } from './utils/envDetection';
-export { runJacCommandForCurrentFile } from './utils/jacRunner';
\ No newline at end of file
+export { runJacCommandForCurrentFile, runJacProfile } from './utils/jacRunner';
\ No newline at end of file
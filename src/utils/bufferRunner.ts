@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { EnvManager } from '../environment/manager';
+import { TERMINAL_NAME } from '../constants';
+import { getCommandTemplate, getPathMappings, toRemotePath } from './commandWrapper';
+
+// Buffers currently being run, by the name their output refers to them with
+const runningBuffers = new Map<string, vscode.Uri>();
+
+// Numbers the runs of this window, so concurrent runs of one buffer get files of their own
+let runCount = 0;
+
+// Output without a newline is held this long, in case the rest of a path is still to come
+const PARTIAL_LINE_DELAY_MS = 50;
+
+/**
+ * Where an unsaved buffer is written for running. Edited files are copied beside themselves,
+ * so their relative imports still resolve and a command template reaches them wherever it
+ * reaches the file; untitled buffers go to the temp directory. Every call returns a new path.
+ */
+export function getTempFilePath(document: Pick<vscode.TextDocument, 'uri' | 'isUntitled'>): string {
+    const run = `${process.pid}-${++runCount}`;
+    if (document.isUntitled) {
+        const name = path.basename(document.uri.path).replace(/[^\w.-]/g, '_');
+        return path.join(os.tmpdir(), 'jac-buffers', `${name}-${run}.jac`);
+    }
+    const { dir, name } = path.parse(document.uri.fsPath);
+    return path.join(dir, `.${name}.unsaved-${run}.jac`);
+}
+
+/** Whether a file is the copy of an edited buffer written beside it for a run. */
+export function isUnsavedBufferCopy(filePath: string): boolean {
+    return /^\..+\.unsaved-\d+-\d+\.jac$/.test(path.basename(filePath));
+}
+
+/** The name output should use for a buffer: its file path, or e.g. `Untitled-1`. */
+export function getBufferDisplayName(document: Pick<vscode.TextDocument, 'uri' | 'isUntitled'>): string {
+    return document.isUntitled ? path.basename(document.uri.path) : document.uri.fsPath;
+}
+
+/**
+ * Replaces the temporary file's path in process output with the buffer's name. The temporary
+ * file holds the buffer's exact text, so line and column numbers already match.
+ */
+export function mapTempFileOutput(text: string, tempPath: string, displayName: string): string {
+    return text.split(tempPath).join(displayName);
+}
+
+/**
+ * Passes process output on with the temporary file's path mapped back to the buffer. Output
+ * is mapped a line at a time, so a path split across chunks is still found; a trailing
+ * partial line, such as an input prompt, is passed on once no more output follows.
+ */
+export function createOutputMapper(tempPath: string, displayName: string, write: (text: string) => void) {
+    let pending = '';
+    let timer: NodeJS.Timeout | undefined;
+    const flush = () => {
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+        if (pending) write(mapTempFileOutput(pending, tempPath, displayName));
+        pending = '';
+    };
+    return {
+        push(text: string): void {
+            if (timer) clearTimeout(timer);
+            timer = undefined;
+            pending += text;
+            const end = pending.lastIndexOf('\n') + 1;
+            if (end > 0) {
+                write(mapTempFileOutput(pending.slice(0, end), tempPath, displayName));
+                pending = pending.slice(end);
+            }
+            if (pending) timer = setTimeout(flush, PARTIAL_LINE_DELAY_MS);
+        },
+        flush,
+    };
+}
+
+/**
+ * Runs `jac <command>` on the current text of an untitled or modified Jac buffer, through a
+ * temporary file deleted when the process exits. Output is shown in a terminal of its own,
+ * with references to the temporary file pointing back at the buffer.
+ */
+export async function runUnsavedBuffer(document: vscode.TextDocument, command: string, envManager: EnvManager): Promise<void> {
+    const tempPath = getTempFilePath(document);
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri) ?? envManager.resolveFolder();
+    // Behind a command template, Jac only sees the temp directory when a path mapping mounts it
+    if (document.isUntitled && getCommandTemplate(folder) && toRemotePath(tempPath, getPathMappings(folder)) === tempPath) {
+        throw new Error(
+            `untitled buffers cannot run through the jaclang-extension.commandTemplate setting unless jaclang-extension.pathMappings maps ${path.dirname(tempPath)}. Save the buffer first.`
+        );
+    }
+    await fs.promises.mkdir(path.dirname(tempPath), { recursive: true });
+    await fs.promises.writeFile(tempPath, document.getText(), 'utf8');
+
+    const displayName = getBufferDisplayName(document);
+    const invocation = envManager.getJacCommand([command, tempPath], document.isUntitled ? folder?.uri : document.uri);
+    const cwd = document.isUntitled ? folder?.uri.fsPath : path.dirname(document.uri.fsPath);
+
+    const writeEmitter = new vscode.EventEmitter<string>();
+    const closeEmitter = new vscode.EventEmitter<number | void>();
+    const toTerminal = (text: string) => writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+    const stdout = createOutputMapper(tempPath, displayName, toTerminal);
+    const stderr = createOutputMapper(tempPath, displayName, toTerminal);
+    let child: cp.ChildProcess | undefined;
+
+    const pty: vscode.Pseudoterminal = {
+        onDidWrite: writeEmitter.event,
+        onDidClose: closeEmitter.event,
+        open: () => {
+            writeEmitter.fire(`> jac ${command} ${displayName}\r\n`);
+            child = cp.spawn(invocation.command, invocation.args, { cwd, shell: false });
+            runningBuffers.set(displayName, document.uri);
+            child.stdout?.on('data', (data: Buffer) => stdout.push(data.toString()));
+            child.stderr?.on('data', (data: Buffer) => stderr.push(data.toString()));
+            child.on('error', error => writeEmitter.fire(`\r\nFailed to start jac: ${error.message}\r\n`));
+            child.on('close', code => {
+                stdout.flush();
+                stderr.flush();
+                writeEmitter.fire(`\r\n[jac ${command} exited with code ${code ?? 'unknown'}]\r\n`);
+                fs.promises.rm(tempPath, { force: true }).catch(error => console.warn('Failed to remove temporary Jac file:', error));
+                child = undefined;
+            });
+        },
+        // The terminal has no line discipline, so echo what is typed before passing it on
+        handleInput: (data: string) => {
+            if (!child?.stdin) return;
+            const text = data.replace(/\r/g, '\n');
+            writeEmitter.fire(text.replace(/\n/g, '\r\n'));
+            child.stdin.write(text);
+        },
+        close: () => {
+            child?.kill();
+            runningBuffers.delete(displayName);
+        },
+    };
+
+    const terminal = vscode.window.createTerminal({ name: `${TERMINAL_NAME}: ${displayName}`, pty });
+    terminal.show();
+}
+
+// `Untitled-1:12`, `Untitled-1, line 12` or `File "C:\app\main.jac", line 12`
+export const BUFFER_LINK = /(?:File ")?((?:[A-Za-z]:)?[^\s",:]+)"?(?::|,\s*line\s+)(\d+)/;
+
+interface BufferLink extends vscode.TerminalLink {
+    uri: vscode.Uri;
+    line: number;
+}
+
+/**
+ * Makes references to run buffers in terminal output clickable, opening the buffer at the
+ * reported line even though it was never saved.
+ */
+export function registerBufferLinks(context: vscode.ExtensionContext) {
+    context.subscriptions.push(vscode.window.registerTerminalLinkProvider({
+        provideTerminalLinks: ({ line }) => {
+            const links: BufferLink[] = [];
+            const pattern = new RegExp(BUFFER_LINK.source, 'g');
+            let match: RegExpExecArray | null;
+            while ((match = pattern.exec(line)) !== null) {
+                const uri = runningBuffers.get(match[1]);
+                if (uri) {
+                    links.push({ startIndex: match.index, length: match[0].length, tooltip: 'Open buffer', uri, line: Number(match[2]) });
+                }
+            }
+            return links;
+        },
+        handleTerminalLink: async (link: BufferLink) => {
+            const editor = await vscode.window.showTextDocument(link.uri);
+            const position = new vscode.Position(Math.max(link.line - 1, 0), 0);
+            editor.selection = new vscode.Selection(position, position);
+            editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+        },
+    }));
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { resolveConfiguredPath, substituteVariables } from '../environment/projectConfig';
+
+export const COMMAND_TEMPLATE_SETTING = 'commandTemplate';
+export const PATH_MAPPINGS_SETTING = 'pathMappings';
+
+/** Maps a host directory to the path it is mounted at inside a container or remote shell. */
+export interface PathMapping {
+    localRoot: string;
+    remoteRoot: string;
+}
+
+/** A fully resolved process invocation: the program to spawn and its arguments. */
+export interface JacInvocation {
+    command: string;
+    args: string[];
+}
+
+/**
+ * Splits a command line into words, honouring single and double quotes. Inside double quotes
+ * `\"` and `\\` stand for a quote and a backslash. Backslashes anywhere else are kept as they
+ * are, because templates hold Windows paths once `${workspaceFolder}` is expanded.
+ * @param commandLine The command line to split, e.g. `docker exec -i "my box" jac`.
+ */
+export function splitCommandLine(commandLine: string): string[] {
+    const words: string[] = [];
+    let current = '';
+    let inWord = false;
+    let quote: '"' | "'" | undefined;
+
+    for (let i = 0; i < commandLine.length; i++) {
+        const ch = commandLine[i];
+        if (quote) {
+            if (ch === quote) {
+                quote = undefined;
+            } else if (ch === '\\' && quote === '"' && (commandLine[i + 1] === '"' || commandLine[i + 1] === '\\')) {
+                current += commandLine[++i];
+            } else {
+                current += ch;
+            }
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+            inWord = true;
+        } else if (/\s/.test(ch)) {
+            if (inWord) {
+                words.push(current);
+                current = '';
+                inWord = false;
+            }
+        } else {
+            current += ch;
+            inWord = true;
+        }
+    }
+    if (inWord) words.push(current);
+    return words;
+}
+
+/**
+ * Quotes an argument for pasting into a terminal, leaving plain words untouched. The quoting
+ * follows POSIX shells; cmd.exe and PowerShell read the escaped `$`, `` ` `` and `"` differently.
+ */
+export function quoteShellArg(arg: string): string {
+    if (arg && /^[\w@%+=:,./\\-]+$/.test(arg)) return arg;
+    return `"${arg.replace(/(["$`])/g, '\\$1')}"`;
+}
+
+/**
+ * Renders an invocation as a single command line for `Terminal.sendText`.
+ */
+export function toShellCommand(invocation: JacInvocation): string {
+    return [invocation.command, ...invocation.args].map(quoteShellArg).join(' ');
+}
+
+function normalizeRoot(root: string, separator: string): string {
+    return root.length > 1 && root.endsWith(separator) ? root.slice(0, -1) : root;
+}
+
+function translatePath(filePath: string, from: string, to: string, fromSep: string, toSep: string): string | undefined {
+    const fromRoot = normalizeRoot(from, fromSep);
+    if (filePath !== fromRoot && !filePath.startsWith(fromRoot + fromSep)) return undefined;
+    const rest = filePath.slice(fromRoot.length).split(fromSep).filter(Boolean);
+    return [normalizeRoot(to, toSep), ...rest].join(toSep);
+}
+
+/**
+ * Translates a host path to its location on the other side of the command wrapper.
+ * Remote paths always use forward slashes. Paths outside every mapping are returned unchanged.
+ * @param localPath An absolute host path.
+ * @param mappings The configured mappings; the first matching one wins.
+ */
+export function toRemotePath(localPath: string, mappings: PathMapping[]): string {
+    for (const mapping of mappings) {
+        const translated = translatePath(localPath, mapping.localRoot, mapping.remoteRoot, path.sep, '/');
+        if (translated !== undefined) return translated;
+    }
+    return localPath;
+}
+
+/**
+ * Translates a path reported by the wrapped process back to the host.
+ * @param remotePath An absolute path as seen inside the container or remote shell.
+ * @param mappings The configured mappings; the first matching one wins.
+ */
+export function toLocalPath(remotePath: string, mappings: PathMapping[]): string {
+    for (const mapping of mappings) {
+        const translated = translatePath(remotePath, mapping.remoteRoot, mapping.localRoot, '/', path.sep);
+        if (translated !== undefined) return translated;
+    }
+    return remotePath;
+}
+
+/**
+ * Reads the command template for a folder, with variables expanded. Empty when Jac runs directly.
+ */
+export function getCommandTemplate(folder?: vscode.WorkspaceFolder): string {
+    const template = vscode.workspace.getConfiguration('jaclang-extension', folder?.uri)
+        .get<string>(COMMAND_TEMPLATE_SETTING, '');
+    return template ? substituteVariables(template.trim(), folder) : '';
+}
+
+/**
+ * Reads the host-to-remote path mappings for a folder. Local roots support the same variables as `jacPath`.
+ */
+export function getPathMappings(folder?: vscode.WorkspaceFolder): PathMapping[] {
+    const mappings = vscode.workspace.getConfiguration('jaclang-extension', folder?.uri)
+        .get<PathMapping[]>(PATH_MAPPINGS_SETTING, []) ?? [];
+    return mappings
+        .filter(mapping => mapping && mapping.localRoot && mapping.remoteRoot)
+        .map(mapping => ({
+            localRoot: resolveConfiguredPath(mapping.localRoot, folder),
+            remoteRoot: substituteVariables(mapping.remoteRoot, folder),
+        }));
+}
+
+/**
+ * Builds the process invocation for a Jac command, applying the configured command template.
+ *
+ * A template containing `${jacPath}` has it replaced by the selected executable; otherwise the
+ * template's last word is taken to be the remote `jac`. When a template is in effect, arguments
+ * that are host paths are translated through the path mappings.
+ * @param jacPath The Jac executable selected for the folder.
+ * @param jacArgs Arguments for `jac`, e.g. `['run', '/work/app.jac']`.
+ * @param folder The workspace folder the command runs for.
+ */
+export function buildJacInvocation(jacPath: string, jacArgs: string[], folder?: vscode.WorkspaceFolder): JacInvocation {
+    const template = getCommandTemplate(folder);
+    if (!template) {
+        return { command: jacPath, args: jacArgs };
+    }
+
+    const words = splitCommandLine(template).map(word => word.replace(/\$\{jacPath\}/g, jacPath));
+    const mappings = getPathMappings(folder);
+    const args = jacArgs.map(arg => path.isAbsolute(arg) ? toRemotePath(arg, mappings) : arg);
+    return { command: words[0], args: [...words.slice(1), ...args] };
+}
@@ -2,8 +2,11 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as cp from 'child_process';
 import { promisify } from 'util';
+import { JAC_PLUGINS } from '../constants';
+import { findJacInPythonExtensionEnvs } from './pythonExtension';
 
 const exec = promisify(cp.exec);
+const execFile = promisify(cp.execFile);
 
 // --- Constants ---
 const JAC_EXECUTABLE_NIX = 'jac';
@@ -14,21 +17,115 @@ const COMMON_VENV_NAMES = ['.venv', 'venv', 'env', '.env', 'virtualenv', 'pyenv'
 // Depth for recursive searches - limited to 2 levels max for fast performance
 const WALK_DEPTH_WORKSPACE = 2;
 const WALK_DEPTH_VIRTUALENVS = 2;
+// Hatch nests envs as <data>/env/virtual/<project>/<hash>/<env>
+const WALK_DEPTH_HATCH = 3;
 
+/** Tools that create and own Python environments, used to tag detected environments. */
+export type EnvironmentTool = 'conda' | 'uv' | 'Poetry' | 'Pipenv' | 'pyenv' | 'Hatch';
 
+// Lock files that identify the tool managing an in-project environment
+const PROJECT_LOCK_FILES: Array<[string, EnvironmentTool]> = [
+    ['uv.lock', 'uv'],
+    ['poetry.lock', 'Poetry'],
+    ['Pipfile.lock', 'Pipenv'],
+];
+
+function getHomeDir(): string {
+    return process.env.HOME || process.env.USERPROFILE || '';
+}
+
+/**
+ * Per-platform data and cache roots, honouring XDG overrides on Linux.
+ */
+function getDataDir(): string {
+    if (process.platform === 'win32') return process.env.LOCALAPPDATA || path.join(getHomeDir(), 'AppData', 'Local');
+    if (process.platform === 'darwin') return path.join(getHomeDir(), 'Library', 'Application Support');
+    return process.env.XDG_DATA_HOME || path.join(getHomeDir(), '.local', 'share');
+}
+
+function getCacheDir(): string {
+    if (process.platform === 'win32') return process.env.LOCALAPPDATA || path.join(getHomeDir(), 'AppData', 'Local');
+    if (process.platform === 'darwin') return path.join(getHomeDir(), 'Library', 'Caches');
+    return process.env.XDG_CACHE_HOME || path.join(getHomeDir(), '.cache');
+}
+
+function getUvToolDir(): string {
+    if (process.env.UV_TOOL_DIR) return process.env.UV_TOOL_DIR;
+    if (process.platform === 'win32') {
+        return path.join(process.env.APPDATA || path.join(getHomeDir(), 'AppData', 'Roaming'), 'uv', 'tools');
+    }
+    return path.join(process.env.XDG_DATA_HOME || path.join(getHomeDir(), '.local', 'share'), 'uv', 'tools');
+}
+
+function getPoetryVirtualenvsDir(): string {
+    if (process.env.POETRY_VIRTUALENVS_PATH) return process.env.POETRY_VIRTUALENVS_PATH;
+    if (process.env.POETRY_CACHE_DIR) return path.join(process.env.POETRY_CACHE_DIR, 'virtualenvs');
+    const cacheRoot = process.platform === 'win32'
+        ? path.join(getCacheDir(), 'pypoetry', 'Cache')
+        : path.join(getCacheDir(), 'pypoetry');
+    return path.join(cacheRoot, 'virtualenvs');
+}
+
+function getPipenvVirtualenvsDir(): string {
+    if (process.env.WORKON_HOME) return process.env.WORKON_HOME;
+    // Pipenv shares virtualenvwrapper's directory on Windows
+    return process.platform === 'win32'
+        ? path.join(getHomeDir(), '.virtualenvs')
+        : path.join(process.env.XDG_DATA_HOME || path.join(getHomeDir(), '.local', 'share'), 'virtualenvs');
+}
+
+function getPyenvVersionsDir(): string {
+    const defaultRoot = process.platform === 'win32'
+        ? path.join(getHomeDir(), '.pyenv', 'pyenv-win')
+        : path.join(getHomeDir(), '.pyenv');
+    return path.join(process.env.PYENV_ROOT || defaultRoot, 'versions');
+}
+
+function getHatchVirtualDir(): string {
+    return path.join(process.env.HATCH_DATA_DIR || path.join(getDataDir(), 'hatch'), 'env', 'virtual');
+}
+
+
+
+/** A path examined during detection, and whether it yielded a usable Jac executable. */
+export interface ProbeRecord {
+    path: string;
+    accepted: boolean;
+    reason: string;
+}
+
+/** Collects probe records when detection runs for the environment report; undefined otherwise. */
+type ProbeLog = ProbeRecord[] | undefined;
+
+function record(log: ProbeLog, probedPath: string, accepted: boolean, reason: string): void {
+    log?.push({ path: probedPath, accepted, reason });
+}
 
 /**
  * Checks for a 'jac' executable in a given virtual environment directory.
  * @param venvPath The root path of the virtual environment.
+ * @param log Optional probe log receiving the outcome.
  * @returns The full path to the 'jac' executable or null if not found.
  */
-async function getJacInVenv(venvPath: string): Promise<string | null> {
+async function getJacInVenv(venvPath: string, log?: ProbeLog): Promise<string | null> {
     const jacPathNix = path.join(venvPath, 'bin', JAC_EXECUTABLE_NIX);
-    if (await fileExists(jacPathNix)) return jacPathNix;
+    if (await fileExists(jacPathNix)) {
+        record(log, jacPathNix, true, 'jac executable found');
+        return jacPathNix;
+    }
 
     const jacPathWin = path.join(venvPath, 'Scripts', JAC_EXECUTABLE_WIN);
-    if (await fileExists(jacPathWin)) return jacPathWin;
+    if (await fileExists(jacPathWin)) {
+        record(log, jacPathWin, true, 'jac executable found');
+        return jacPathWin;
+    }
 
+    if (log) {
+        const reason = await directoryExists(venvPath)
+            ? 'no jac executable in bin/ or Scripts/'
+            : 'directory does not exist';
+        record(log, venvPath, false, reason);
+    }
     return null;
 }
 
@@ -37,17 +134,20 @@ async function getJacInVenv(venvPath: string): Promise<string | null> {
  * Optimized to limit depth and avoid unnecessary deep recursion for better performance.
  * @param baseDir The directory to start from.
  * @param depth The maximum depth to recurse (max 2 for workspace efficiency).
+ * @param log Optional probe log; only environments and unreadable directories are recorded, not every folder walked.
+ * @param skipNames Entries of `baseDir` that were already probed, so they are only walked into, not reported again.
  * @returns A promise that resolves to an array of jac executable paths.
  */
-async function walkForVenvs(baseDir: string, depth: number): Promise<string[]> {
+async function walkForVenvs(baseDir: string, depth: number, log?: ProbeLog, skipNames?: ReadonlySet<string>): Promise<string[]> {
     if (depth === 0) return [];
 
     let entries: import('fs').Dirent[];
 
     try {
         entries = await fs.readdir(baseDir, { withFileTypes: true });
-    } catch (error) {
+    } catch (error: any) {
         // Silently ignore permission errors, common in deep scans
+        record(log, baseDir, false, error?.code === 'ENOENT' ? 'directory does not exist' : `not readable (${error?.code ?? error})`);
         return [];
     }
 
@@ -59,11 +159,19 @@ async function walkForVenvs(baseDir: string, depth: number): Promise<string[]> {
 
         // Check if this directory contains jac
         const foundJac = await getJacInVenv(fullPath);
+        if (skipNames?.has(entry.name)) {
+            return depth > 1 && !foundJac ? walkForVenvs(fullPath, depth - 1, log) : [];
+        }
+        if (foundJac) {
+            record(log, foundJac, true, 'jac executable found');
+        } else if (log && await fileExists(path.join(fullPath, 'pyvenv.cfg'))) {
+            record(log, fullPath, false, 'virtual environment without jac (jaclang not installed)');
+        }
 
         // Only recurse if we have depth remaining and didn't find jac here
         // This avoids deep searches in directories that already contain jac
         if (depth > 1 && !foundJac) {
-            const deeperFinds = await walkForVenvs(fullPath, depth - 1);
+            const deeperFinds = await walkForVenvs(fullPath, depth - 1, log);
             return deeperFinds;
         }
 
@@ -79,9 +187,9 @@ async function walkForVenvs(baseDir: string, depth: number): Promise<string[]> {
 /**
  * Finds global jac installation using which/where command
  */
-async function findGlobalJac(): Promise<string[]> {
+async function findGlobalJac(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
+    const command = process.platform === 'win32' ? 'where jac' : 'which jac';
     try {
-        const command = process.platform === 'win32' ? 'where jac' : 'which jac';
         const { stdout } = await exec(command, { timeout: 5000 });
         const paths = stdout.trim().split('\n').filter(line => line.trim());
 
@@ -91,16 +199,20 @@ async function findGlobalJac(): Promise<string[]> {
             const trimmedPath = jacPath.trim();
             if (await validateJacExecutable(trimmedPath)) {
                 validPaths.push(trimmedPath);
+                record(log, trimmedPath, true, `reported by '${command}' and responds to --version`);
+            } else {
+                record(log, trimmedPath, false, `reported by '${command}' but does not respond to --version`);
             }
         }
         return validPaths;
     } catch (error) {
         // Command failed - jac not in PATH or command doesn't exist
+        record(log, command, false, 'command failed, jac is not on PATH');
         return [];
     }
 }
 
-async function findInPath(): Promise<string[]> {
+async function findInPath(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
     const jacExe = process.platform === 'win32' ? JAC_EXECUTABLE_WIN : JAC_EXECUTABLE_NIX;
     const pathDirs = process.env.PATH?.split(path.delimiter) || [];
     const found = [];
@@ -108,12 +220,15 @@ async function findInPath(): Promise<string[]> {
         const jacPath = path.join(dir, jacExe);
         if (await fileExists(jacPath)) {
             found.push(jacPath);
+            record(log, jacPath, true, 'jac executable found');
+        } else {
+            record(log, jacPath, false, 'not present');
         }
     }
     return found;
 }
 
-async function findInCondaEnvs(): Promise<string[]> {
+async function findInCondaEnvs(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
     try {
         const { stdout } = await exec('conda env list', { timeout: 5000 });
         const lines = stdout.split('\n').slice(2); // Skip header lines
@@ -121,7 +236,7 @@ async function findInCondaEnvs(): Promise<string[]> {
             const parts = line.trim().split(/\s+/);
             const envPath = parts[parts.length - 1]; // Path is the last part
             if (envPath) {
-                return getJacInVenv(envPath);
+                return getJacInVenv(envPath, log);
             }
             return null;
         });
@@ -129,39 +244,144 @@ async function findInCondaEnvs(): Promise<string[]> {
         return results.filter(p => p !== null) as string[];
     } catch (error) {
         // Conda not found or command failed, which is a normal scenario.
+        record(log, 'conda env list', false, 'conda is not installed or the command failed');
         return [];
     }
 }
 
-async function findInWorkspace(workspaceRoot: string): Promise<string[]> {
+async function findInWorkspace(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
     const searchTasks: Promise<string[]>[] = [];
 
     // 1. Check common venv names in the workspace root
     for (const dirName of COMMON_VENV_NAMES) {
-        searchTasks.push(getJacInVenv(path.join(workspaceRoot, dirName)).then(p => p ? [p] : []));
+        searchTasks.push(getJacInVenv(path.join(workspaceRoot, dirName), log).then(p => p ? [p] : []));
     }
 
-    // 2. Limited search in workspace root only (2 levels deep max)
-    searchTasks.push(walkForVenvs(workspaceRoot, WALK_DEPTH_WORKSPACE));
+    // 2. Limited search in workspace root only (2 levels deep max), skipping the names checked above
+    searchTasks.push(walkForVenvs(workspaceRoot, WALK_DEPTH_WORKSPACE, log, new Set(COMMON_VENV_NAMES)));
+
+    const results = await Promise.all(searchTasks);
+    return results.flat();
+}
+
+/**
+ * Finds uv-managed environments: tool installs (`uv tool install jaclang`)
+ * and a project environment relocated via UV_PROJECT_ENVIRONMENT.
+ * The default in-project `.venv` is already covered by the workspace scan.
+ */
+async function findInUvEnvs(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
+    const searchTasks: Promise<string[]>[] = [walkForVenvs(getUvToolDir(), 1, log)];
+
+    const projectEnv = process.env.UV_PROJECT_ENVIRONMENT;
+    if (projectEnv) {
+        const envPath = path.isAbsolute(projectEnv) ? projectEnv : path.join(workspaceRoot, projectEnv);
+        searchTasks.push(getJacInVenv(envPath, log).then(p => p ? [p] : []));
+    }
 
     const results = await Promise.all(searchTasks);
     return results.flat();
 }
 
-async function findInHome(workspaceRoot: string): Promise<string[]> {
+/**
+ * Finds Poetry environments in its virtualenvs cache, including a
+ * custom `virtualenvs.path` from the project's or user's Poetry config.
+ */
+async function findInPoetryEnvs(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
+    const dirs = new Set([getPoetryVirtualenvsDir()]);
+    try {
+        const { stdout } = await exec('poetry config virtualenvs.path', { cwd: workspaceRoot, timeout: 5000 });
+        const configured = stdout.trim();
+        if (configured) dirs.add(configured);
+    } catch (error) {
+        // Poetry not installed, fall back to the default location.
+        record(log, 'poetry config virtualenvs.path', false, 'poetry is not installed, using the default location');
+    }
+
+    const results = await Promise.all(Array.from(dirs).map(dir => walkForVenvs(dir, 1, log)));
+    return results.flat();
+}
+
+async function findInPipenvEnvs(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
+    return walkForVenvs(getPipenvVirtualenvsDir(), 1, log);
+}
+
+/**
+ * Finds pyenv interpreters and pyenv-virtualenv environments
+ * (stored under `versions/<version>/envs/<name>`).
+ */
+async function findInPyenvVersions(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
+    const versionsDir = getPyenvVersionsDir();
+    let entries: import('fs').Dirent[];
+    try {
+        entries = await fs.readdir(versionsDir, { withFileTypes: true });
+    } catch (error) {
+        record(log, versionsDir, false, 'pyenv versions directory does not exist');
+        return [];
+    }
+
+    const promises = entries
+        .filter(entry => entry.isDirectory())
+        .map(async (entry) => {
+            const versionPath = path.join(versionsDir, entry.name);
+            const [own, nested] = await Promise.all([
+                getJacInVenv(versionPath, log),
+                walkForVenvs(path.join(versionPath, 'envs'), 1, log)
+            ]);
+            return own ? [own, ...nested] : nested;
+        });
+
+    const results = await Promise.all(promises);
+    return results.flat();
+}
+
+async function findInHatchEnvs(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
+    return walkForVenvs(getHatchVirtualDir(), WALK_DEPTH_HATCH, log);
+}
+
+async function findInHome(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
     // Only check virtualenvwrapper directory for better performance
     // Skip deep home directory scans to focus on workspace-local environments
     const homeDir = process.env.HOME || process.env.USERPROFILE;
-    if (!homeDir || homeDir === workspaceRoot) return [];
+    if (!homeDir || homeDir === workspaceRoot) {
+        record(log, homeDir || '~', false, homeDir ? 'home directory is the workspace, already scanned' : 'home directory unknown');
+        return [];
+    }
 
     const venvWrapperDir = path.join(homeDir, '.virtualenvs');
     if (await directoryExists(venvWrapperDir)) {
-        return await walkForVenvs(venvWrapperDir, WALK_DEPTH_VIRTUALENVS);
+        return await walkForVenvs(venvWrapperDir, WALK_DEPTH_VIRTUALENVS, log);
     }
 
+    record(log, venvWrapperDir, false, 'directory does not exist');
     return [];
 }
 
+async function findInPythonExtension(workspaceRoot: string, log?: ProbeLog): Promise<string[]> {
+    const found = await findJacInPythonExtensionEnvs();
+    found.forEach(jacPath => record(log, jacPath, true, 'interpreter known to the Python extension has jac'));
+    return found;
+}
+
+/**
+ * Discovery strategies, in the order their results are reported.
+ * Every strategy receives the workspace root and an optional probe log.
+ */
+const DETECTION_STRATEGIES: Array<{
+    name: string;
+    find: (workspaceRoot: string, log?: ProbeLog) => Promise<string[]>;
+}> = [
+    { name: 'Global (which/where jac)', find: findGlobalJac },   // Check for global jac first (most reliable)
+    { name: 'PATH scan', find: findInPath },                      // Manual PATH scanning (backup)
+    { name: 'Conda environments', find: findInCondaEnvs },
+    { name: 'Workspace', find: findInWorkspace },                 // Workspace-local environments (2 levels deep max)
+    { name: 'Home (~/.virtualenvs)', find: findInHome },          // Only virtualenvwrapper, no deep home scan
+    { name: 'uv', find: findInUvEnvs },                           // uv tool and relocated project environments
+    { name: 'Poetry', find: findInPoetryEnvs },                   // Poetry virtualenvs cache
+    { name: 'Pipenv', find: findInPipenvEnvs },
+    { name: 'pyenv', find: findInPyenvVersions },                 // pyenv versions and pyenv-virtualenv envs
+    { name: 'Hatch', find: findInHatchEnvs },
+    { name: 'Python extension', find: findInPythonExtension },    // Interpreters known to the Python extension
+];
 
 /**
  * Finds all Python environments with the 'jac' executable.
@@ -174,13 +394,7 @@ async function findInHome(workspaceRoot: string): Promise<string[]> {
 export async function findPythonEnvsWithJac(workspaceRoot: string = process.cwd()): Promise<string[]> {
     // Run optimized discovery strategies in parallel for instant results
     // Promise.allSettled ensures that if one strategy fails (e.g., conda not installed), the others can still succeed.
-    const results = await Promise.allSettled([
-        findGlobalJac(),      // Check for global jac first (most reliable)
-        findInPath(),         // Manual PATH scanning (backup)
-        findInCondaEnvs(),    // Conda environments
-        findInWorkspace(workspaceRoot), // Workspace-local environments (2 levels deep max)
-        findInHome(workspaceRoot) // Only virtualenvwrapper, no deep home scan
-    ]);
+    const results = await Promise.allSettled(DETECTION_STRATEGIES.map(strategy => strategy.find(workspaceRoot)));
 
     const allEnvs: string[] = [];
     for (const result of results) {
@@ -194,6 +408,78 @@ export async function findPythonEnvsWithJac(workspaceRoot: string = process.cwd(
     return Array.from(new Set(allEnvs));
 }
 
+/** Outcome of one detection strategy, as shown in the environment report. */
+export interface StrategyReport {
+    name: string;
+    durationMs: number;
+    found: string[];
+    probes: ProbeRecord[];
+    error?: string;
+}
+
+/**
+ * Runs every detection strategy one after another, timing each and recording
+ * which paths were probed and why they were accepted or rejected.
+ * @param workspaceRoot The root directory of the workspace to scan.
+ * @returns One report per strategy, in the order of DETECTION_STRATEGIES.
+ */
+export async function diagnoseEnvironmentDetection(workspaceRoot: string = process.cwd()): Promise<StrategyReport[]> {
+    const reports: StrategyReport[] = [];
+    for (const strategy of DETECTION_STRATEGIES) {
+        const probes: ProbeRecord[] = [];
+        const started = Date.now();
+        try {
+            const found = await strategy.find(workspaceRoot, probes);
+            reports.push({ name: strategy.name, durationMs: Date.now() - started, found: Array.from(new Set(found)), probes });
+        } catch (error: any) {
+            reports.push({ name: strategy.name, durationMs: Date.now() - started, found: [], probes, error: error?.message ?? String(error) });
+        }
+    }
+    return reports;
+}
+
+/**
+ * Identifies the tool that owns the environment of a Jac executable, based on
+ * where the environment lives or, for in-project environments, on the
+ * `pyvenv.cfg` marker and lock files next to it.
+ * @param jacPath The path to the Jac executable.
+ * @returns The owning tool, or undefined for plain venvs and global installs.
+ */
+export async function identifyEnvironmentTool(jacPath: string): Promise<EnvironmentTool | undefined> {
+    const envRoot = path.dirname(path.dirname(jacPath));
+    const isUnder = (dir: string) => {
+        const relative = path.relative(dir, envRoot);
+        return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+    };
+
+    if (jacPath.includes('conda') || jacPath.includes('miniconda') || jacPath.includes('anaconda') ||
+        await directoryExists(path.join(envRoot, 'conda-meta'))) {
+        return 'conda';
+    }
+    if (isUnder(getUvToolDir())) return 'uv';
+    if (isUnder(getPoetryVirtualenvsDir())) return 'Poetry';
+    if (isUnder(getHatchVirtualDir())) return 'Hatch';
+    if (isUnder(getPyenvVersionsDir())) return 'pyenv';
+    // Without WORKON_HOME, Windows Pipenv shares virtualenvwrapper's folder, so it can't be told apart
+    if (isUnder(getPipenvVirtualenvsDir()) && getPipenvVirtualenvsDir() !== path.join(getHomeDir(), '.virtualenvs')) {
+        return 'Pipenv';
+    }
+
+    // uv records itself in the pyvenv.cfg of environments it creates
+    try {
+        const cfg = await fs.readFile(path.join(envRoot, 'pyvenv.cfg'), 'utf-8');
+        if (/^uv\s*=/m.test(cfg)) return 'uv';
+    } catch {
+        return undefined; // Not a virtual environment
+    }
+
+    const projectDir = path.dirname(envRoot);
+    for (const [lockFile, tool] of PROJECT_LOCK_FILES) {
+        if (await fileExists(path.join(projectDir, lockFile))) return tool;
+    }
+    return undefined;
+}
+
 // --- Utility Helpers ---
 
 async function fileExists(filePath: string): Promise<boolean> {
@@ -226,4 +512,170 @@ export async function validateJacExecutable(jacPath: string): Promise<boolean> {
     } catch (error) {
         return false;
     }
-}
\ No newline at end of file
+}
+
+/** Versions reported by a Jac environment. */
+export interface JacEnvironmentInfo {
+    jacPath: string;
+    /** Interpreter the jac entry point runs on, when it could be located. */
+    pythonPath?: string;
+    jacVersion?: string;
+    pythonVersion?: string;
+    /** Installed Jac plugins mapped to their versions. */
+    plugins: Record<string, string>;
+    /** site-packages directory holding jaclang's metadata. */
+    sitePackages?: string;
+}
+
+// Prints the jaclang, Python and plugin versions of the interpreter, and where jaclang is installed, as JSON.
+// Plugins are the packages named in argv plus any package registering a `jac` entry point.
+const PROBE_SCRIPT = [
+    'import json, sys',
+    'from importlib import metadata',
+    'def version(name):',
+    '    try:',
+    '        return metadata.version(name)',
+    '    except Exception:',
+    '        return None',
+    'def site():',
+    '    try:',
+    '        return str(metadata.distribution("jaclang").locate_file(""))',
+    '    except Exception:',
+    '        return None',
+    'plugins = {name: version(name) for name in sys.argv[1:]}',
+    'for dist in metadata.distributions():',
+    '    try:',
+    '        name = dist.metadata["Name"]',
+    '        if name and name != "jaclang" and any(ep.group == "jac" for ep in dist.entry_points):',
+    '            plugins[name] = dist.version',
+    '    except Exception:',
+    '        pass',
+    'print(json.dumps({"jaclang": version("jaclang"), "python": sys.version.split()[0],',
+    '                  "plugins": {k: v for k, v in plugins.items() if v}, "site": site()}))',
+].join('\n');
+
+/**
+ * Reads what the probe script printed: the JSON on its last line.
+ * @returns The environment information, or undefined when jaclang is not installed or the output is not the probe's.
+ */
+export function parseProbeOutput(jacPath: string, pythonPath: string, stdout: string): JacEnvironmentInfo | undefined {
+    let probed: any;
+    try {
+        probed = JSON.parse(stdout.trim().split('\n').pop() || '{}');
+    } catch {
+        return undefined;
+    }
+    if (!probed || !probed.jaclang) return undefined;
+    return {
+        jacPath,
+        pythonPath,
+        jacVersion: probed.jaclang,
+        pythonVersion: probed.python,
+        plugins: probed.plugins || {},
+        sitePackages: probed.site || undefined
+    };
+}
+
+/**
+ * Locates the Python interpreter behind a Jac executable: the interpreter next to it
+ * in the same environment, or the one named in the entry point's shebang line.
+ * @param jacPath The path to the Jac executable.
+ * @returns The interpreter path, or undefined if it cannot be determined.
+ */
+export async function findPythonForJac(jacPath: string): Promise<string | undefined> {
+    const jacDir = path.dirname(jacPath);
+    const candidates = process.platform === 'win32' ? ['python.exe'] : ['python', 'python3'];
+    for (const candidate of candidates) {
+        const pythonPath = path.join(jacDir, candidate);
+        if (path.isAbsolute(jacPath) && await fileExists(pythonPath)) return pythonPath;
+    }
+
+    try {
+        const firstLine = (await fs.readFile(jacPath, 'utf-8')).split('\n', 1)[0];
+        const shebang = firstLine.match(/^#!\s*(\S+)/);
+        if (shebang && /python[\d.]*$/.test(shebang[1])) return shebang[1];
+    } catch {
+        // Not readable, e.g. a bare 'jac' resolved through PATH
+    }
+    return undefined;
+}
+
+/**
+ * Probes a Jac executable for the jaclang version, the Python version and installed Jac plugins.
+ * Falls back to parsing `jac --version` when the environment's interpreter cannot be run.
+ * @param jacPath The path to the Jac executable to probe.
+ * @returns The environment information, or undefined if the executable does not respond.
+ */
+export async function probeJacEnvironment(jacPath: string): Promise<JacEnvironmentInfo | undefined> {
+    const pythonPath = await findPythonForJac(jacPath);
+    if (pythonPath) {
+        try {
+            const { stdout } = await execFile(pythonPath, ['-c', PROBE_SCRIPT, ...JAC_PLUGINS], { timeout: 10000 });
+            const info = parseProbeOutput(jacPath, pythonPath, stdout);
+            if (info) return info;
+        } catch (error) {
+            // Fall through to asking jac itself
+        }
+    }
+
+    try {
+        const { stdout } = await exec(`"${jacPath}" --version`, { timeout: 5000 });
+        if (!stdout.includes('jac') && !stdout.includes('Jac')) return undefined;
+        const jacVersion = stdout.match(/(\d+\.\d+\.\d+[\w.-]*)/)?.[1];
+        const pythonVersion = stdout.match(/Python\s+(\d+\.\d+\.\d+)/i)?.[1];
+        return { jacPath, pythonPath, jacVersion, pythonVersion, plugins: {} };
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/** A Python interpreter found on PATH. */
+export interface PythonInterpreter {
+    path: string;
+    version: string;
+}
+
+/**
+ * Finds Python interpreters on PATH that can serve as the base for a new environment.
+ * @returns Unique interpreters, resolved to their real executable paths.
+ */
+export async function findPythonInterpreters(): Promise<PythonInterpreter[]> {
+    const candidates: Array<[string, string[]]> = [['python3', []], ['python', []]];
+    if (process.platform === 'win32') {
+        candidates.unshift(['py', ['-3']]);
+    }
+
+    const script = 'import sys; print(sys.executable); print(sys.version.split()[0])';
+    const results = await Promise.all(candidates.map(async ([command, prefix]) => {
+        try {
+            const { stdout } = await execFile(command, [...prefix, '-c', script], { timeout: 5000 });
+            const [executable, version] = stdout.trim().split(/\r?\n/);
+            return executable && version ? { path: executable.trim(), version: version.trim() } : null;
+        } catch (error) {
+            return null;
+        }
+    }));
+
+    const unique = new Map<string, PythonInterpreter>();
+    for (const interpreter of results) {
+        if (interpreter && !unique.has(interpreter.path)) {
+            unique.set(interpreter.path, interpreter);
+        }
+    }
+    return Array.from(unique.values());
+}
+
+/**
+ * Compares two dotted version strings numerically, ignoring pre-release suffixes.
+ * @returns A negative number if a < b, zero if equal, a positive number if a > b.
+ */
+export function compareVersions(a: string, b: string): number {
+    const parse = (version: string) => version.split('.').map(part => parseInt(part, 10) || 0);
+    const partsA = parse(a);
+    const partsB = parse(b);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const diff = (partsA[i] || 0) - (partsB[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import type { EnvManager } from '../environment/manager';
+
+export const REPL_ARGS_SETTING = 'replArgs';
+export const REPL_TERMINAL_NAME = 'Jac REPL';
+
+/**
+ * The text "Send Selection" sends: the selected text, or the cursor's line when nothing is
+ * selected, always ending in a newline so the REPL evaluates it.
+ */
+export function getTextToSend(document: vscode.TextDocument, selection: vscode.Selection): string {
+    const text = selection.isEmpty ? document.lineAt(selection.active.line).text : document.getText(selection);
+    return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+/**
+ * Owns the interactive Jac terminal. It runs the selected environment's `jac` with the
+ * `jaclang-extension.replArgs` arguments, through the command template and path mappings
+ * when configured, and is replaced when the environment changes.
+ */
+export class JacRepl {
+    private terminal: vscode.Terminal | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private envManager: EnvManager) {
+        this.disposables.push(
+            vscode.window.onDidCloseTerminal(closed => {
+                if (closed === this.terminal) this.terminal = undefined;
+            }),
+            // A REPL of the previous interpreter would silently run the wrong jaclang
+            envManager.onDidChangeEnvironment(() => this.reset())
+        );
+    }
+
+    /** Shows the REPL, starting it first when it is not running. */
+    show(preserveFocus = false): vscode.Terminal {
+        if (!this.terminal) {
+            const folder = this.envManager.resolveFolder();
+            const replArgs = vscode.workspace.getConfiguration('jaclang-extension', folder?.uri).get<string[]>(REPL_ARGS_SETTING, ['shell']);
+            const { command, args } = this.envManager.getJacCommand(replArgs, folder?.uri);
+            this.terminal = vscode.window.createTerminal({
+                name: REPL_TERMINAL_NAME,
+                shellPath: command,
+                shellArgs: args,
+                cwd: folder?.uri.fsPath,
+            });
+        }
+        this.terminal.show(preserveFocus);
+        return this.terminal;
+    }
+
+    /** Sends the selection, or the current line, of an editor to the REPL. */
+    sendSelection(editor: vscode.TextEditor): void {
+        const text = getTextToSend(editor.document, editor.selection);
+        if (!text.trim()) return;
+        // Keep the focus in the editor so lines can be sent one after another
+        this.show(true).sendText(text, false);
+    }
+
+    reset(): void {
+        this.terminal?.dispose();
+        this.terminal = undefined;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.reset();
+    }
+}
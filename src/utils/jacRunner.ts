@@ -1,8 +1,24 @@
 import * as vscode from 'vscode';
 import { TERMINAL_NAME } from '../constants';
+import { getCommandTemplate, toShellCommand } from './commandWrapper';
+import { ResolvedRunProfile } from './runProfiles';
+import { runUnsavedBuffer } from './bufferRunner';
+import type { EnvManager } from '../environment/manager';
 
 export function runJacCommandForCurrentFile(command: string, envManager?: any) {
-    const filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    const document = vscode.window.activeTextEditor?.document;
+    // Unsaved text is run from a temporary copy, so what runs is what the editor shows
+    if (envManager && document?.languageId === 'jac' && (document.isUntitled || document.isDirty)) {
+        runUnsavedBuffer(document, command, envManager).catch(error => {
+            vscode.window.showErrorMessage(`Failed to run unsaved Jac buffer: ${error.message || error}`);
+        });
+        return;
+    }
+    const projectConfig = envManager?.getProjectConfig(document?.uri);
+    // Outside a Jac file, fall back to the project's jac.toml entry point
+    const filePath = document?.languageId === 'jac'
+        ? document.uri.fsPath
+        : projectConfig?.entryPoint ?? document?.uri.fsPath;
     if (filePath) {
         let terminal = vscode.window.terminals.find(t => t.name === TERMINAL_NAME);
         if (!terminal) {
@@ -10,7 +26,50 @@ export function runJacCommandForCurrentFile(command: string, envManager?: any) {
         }
         terminal.show();
 
-        const jacPath = envManager ? envManager.getJacPath() : 'jac';
-        terminal.sendText(`${jacPath} ${command} "${filePath}"`);
+        const jacArgs = [command, filePath, ...(command === 'run' ? projectConfig?.args ?? [] : [])];
+        const invocation = envManager
+            ? envManager.getJacCommand(jacArgs, vscode.Uri.file(filePath))
+            : { command: 'jac', args: jacArgs };
+        terminal.sendText(toShellCommand(invocation));
+    }
+}
+
+// Options each profile terminal was created with; a terminal's cwd and env are fixed at creation
+const profileTerminalOptions = new WeakMap<vscode.Terminal, string>();
+
+/**
+ * Runs a resolved run profile in its own terminal, which is recreated when the profile's
+ * working directory or environment variables changed since the last run.
+ */
+export function runJacProfile(profile: ResolvedRunProfile, envManager: EnvManager) {
+    if (!profile.filePath) {
+        vscode.window.showErrorMessage(`Run profile "${profile.name}" names no file and no file is open.`);
+        return;
     }
+
+    const name = `${TERMINAL_NAME}: ${profile.name}`;
+    const options = JSON.stringify({ cwd: profile.cwd, env: profile.env });
+    let terminal = vscode.window.terminals.find(t => t.name === name);
+    if (terminal && profileTerminalOptions.get(terminal) !== options) {
+        terminal.dispose();
+        terminal = undefined;
+    }
+    if (!terminal) {
+        terminal = vscode.window.createTerminal({ name, cwd: profile.cwd, env: profile.env });
+        profileTerminalOptions.set(terminal, options);
+    }
+    terminal.show();
+
+    const fileUri = vscode.Uri.file(profile.filePath);
+    const folder = envManager.resolveFolder(fileUri);
+    // The terminal's cwd and env stay on the host, so they never reach a wrapped process
+    if (getCommandTemplate(folder) && (Object.keys(profile.env).length > 0 || profile.cwd !== folder?.uri.fsPath)) {
+        vscode.window.showWarningMessage(
+            `Run profile "${profile.name}" sets env or cwd, which only apply to the host terminal and do not reach the jaclang-extension.commandTemplate process.`
+        );
+    }
+
+    const projectArgs = profile.command === 'run' ? envManager.getProjectConfig(fileUri)?.args ?? [] : [];
+    const invocation = envManager.getJacCommand([profile.command, profile.filePath, ...projectArgs, ...profile.args], fileUri);
+    terminal.sendText(toShellCommand(invocation));
 }
@@ -0,0 +1,13 @@
+import * as vscode from 'vscode';
+import { runProcess } from './process';
+
+/**
+ * Runs `python -m pip <args>` for an environment, streaming output to the given channel.
+ * @param pythonPath The interpreter of the environment to install into.
+ * @param args Arguments passed to pip, e.g. ['install', '--upgrade', 'jaclang'].
+ * @param outputChannel Optional channel receiving pip's stdout and stderr.
+ * @returns Promise that resolves when pip exits successfully, and rejects otherwise.
+ */
+export function runPip(pythonPath: string, args: string[], outputChannel?: vscode.OutputChannel): Promise<void> {
+    return runProcess(pythonPath, ['-m', 'pip', ...args], outputChannel);
+}
@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+
+/**
+ * Spawns a process and streams its output line by line to an output channel.
+ * @returns Promise that resolves on exit code 0, and rejects with the tail of stderr otherwise.
+ */
+export function runProcess(
+    command: string,
+    args: string[],
+    outputChannel?: vscode.OutputChannel,
+    options: cp.SpawnOptions = {}
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        outputChannel?.appendLine(`> ${command} ${args.join(' ')}`);
+        const child = cp.spawn(command, args, { ...options, shell: false });
+        let stderrTail = '';
+
+        child.stdout?.on('data', (data: Buffer) => outputChannel?.append(data.toString()));
+        child.stderr?.on('data', (data: Buffer) => {
+            const text = data.toString();
+            stderrTail = (stderrTail + text).slice(-2000);
+            outputChannel?.append(text);
+        });
+        child.on('error', reject);
+        child.on('close', (code) => {
+            if (code === 0) {
+                resolve();
+            } else {
+                const lastLine = stderrTail.trim().split('\n').pop() || `exit code ${code}`;
+                reject(new Error(`${command} failed: ${lastLine}`));
+            }
+        });
+    });
+}
+
+/**
+ * Spawns a process and collects what it prints, for commands whose output is the result.
+ * @returns Promise that resolves with stdout on exit code 0, and rejects with the tail of stderr otherwise.
+ */
+export function captureProcess(command: string, args: string[], options: cp.SpawnOptions = {}): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = cp.spawn(command, args, { ...options, shell: false });
+        const stdout: Buffer[] = [];
+        let stderrTail = '';
+
+        child.stdout?.on('data', (data: Buffer) => stdout.push(data));
+        child.stderr?.on('data', (data: Buffer) => {
+            stderrTail = (stderrTail + data.toString()).slice(-2000);
+        });
+        child.on('error', reject);
+        child.on('close', (code) => {
+            if (code === 0) {
+                resolve(Buffer.concat(stdout).toString());
+            } else {
+                const lastLine = stderrTail.trim().split('\n').pop() || `exit code ${code}`;
+                reject(new Error(`${command} failed: ${lastLine}`));
+            }
+        });
+    });
+}
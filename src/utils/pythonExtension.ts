@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+
+const PYTHON_EXTENSION_ID = 'ms-python.python';
+
+/** An environment as reported by the Python extension. */
+interface PythonEnvironment {
+    id: string;
+    path: string;
+    executable?: { uri?: vscode.Uri };
+}
+
+/** Payload of the Python extension's active interpreter change event. */
+export interface ActiveEnvironmentPathChange {
+    id: string;
+    path: string;
+    resource?: vscode.WorkspaceFolder;
+}
+
+/**
+ * The subset of the Python extension's environments API (published as
+ * `@vscode/python-extension`) used for interpreter discovery.
+ */
+interface PythonEnvironmentsApi {
+    readonly known: readonly PythonEnvironment[];
+    getActiveEnvironmentPath(resource?: vscode.Uri): { id: string; path: string };
+    resolveEnvironment(environment: { id: string; path: string } | string): Promise<PythonEnvironment | undefined>;
+    readonly onDidChangeActiveEnvironmentPath: vscode.Event<ActiveEnvironmentPathChange>;
+}
+
+interface PythonExtensionApi {
+    ready?: Promise<void>;
+    environments?: PythonEnvironmentsApi;
+}
+
+/**
+ * Returns the Python extension's environments API, activating the extension if needed.
+ * @returns The API, or undefined when the extension is missing or too old to provide it.
+ */
+export async function getPythonEnvironmentsApi(): Promise<PythonEnvironmentsApi | undefined> {
+    try {
+        const extension = vscode.extensions.getExtension<PythonExtensionApi>(PYTHON_EXTENSION_ID);
+        if (!extension) return undefined;
+
+        const api = extension.isActive ? extension.exports : await extension.activate();
+        await api?.ready;
+        return api?.environments;
+    } catch (error) {
+        console.warn('Python extension API unavailable:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Finds the Jac entry point installed alongside a Python interpreter.
+ * Conda base environments on Windows keep python.exe at the root and scripts in `Scripts`.
+ * @param pythonPath The interpreter path.
+ * @returns The jac executable path, or undefined if the interpreter has no jac.
+ */
+export function findJacForInterpreter(pythonPath: string): string | undefined {
+    const jacExe = process.platform === 'win32' ? 'jac.exe' : 'jac';
+    const pythonDir = path.dirname(pythonPath);
+    const candidates = [path.join(pythonDir, jacExe), path.join(pythonDir, 'Scripts', jacExe)];
+    return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+/**
+ * Lists Jac executables in every environment known to the Python extension.
+ * @returns Paths to 'jac' executables, empty when the Python extension is unavailable.
+ */
+export async function findJacInPythonExtensionEnvs(): Promise<string[]> {
+    const environments = await getPythonEnvironmentsApi();
+    if (!environments) return [];
+
+    const found: string[] = [];
+    for (const environment of environments.known) {
+        const pythonPath = environment.executable?.uri?.fsPath;
+        const jacPath = pythonPath ? findJacForInterpreter(pythonPath) : undefined;
+        if (jacPath) found.push(jacPath);
+    }
+    return found;
+}
+
+/**
+ * Resolves the Jac executable of the interpreter selected in the Python extension.
+ * @param resource Folder or file the interpreter selection applies to.
+ * @returns The interpreter and its jac executable (if installed), or undefined without the Python extension.
+ */
+export async function getActiveInterpreterJac(
+    resource?: vscode.Uri
+): Promise<{ pythonPath: string; jacPath: string | undefined } | undefined> {
+    const environments = await getPythonEnvironmentsApi();
+    if (!environments) return undefined;
+
+    const active = environments.getActiveEnvironmentPath(resource);
+    const resolved = await environments.resolveEnvironment(active);
+    const pythonPath = resolved?.executable?.uri?.fsPath ?? active.path;
+    return { pythonPath, jacPath: findJacForInterpreter(pythonPath) };
+}
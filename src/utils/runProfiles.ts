@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import type { EnvManager } from '../environment/manager';
+import { substituteVariables } from '../environment/projectConfig';
+import { COMMANDS } from '../constants';
+
+export const RUN_PROFILES_SETTING = 'runProfiles';
+
+// Name of the active profile, per workspace
+const ACTIVE_PROFILE_KEY = 'jacActiveRunProfile';
+
+/** A named way of running Jac, as stored in the `jaclang-extension.runProfiles` setting. */
+export interface RunProfile {
+    name: string;
+    /** The Jac file to run, relative to the workspace folder; defaults to the active file. */
+    file?: string;
+    /** The jac subcommand, `run` by default. */
+    command?: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+    /** A `.env` file whose variables are set before `env`. */
+    envFile?: string;
+}
+
+/** A profile with its paths resolved and its environment variables merged. */
+export interface ResolvedRunProfile {
+    name: string;
+    filePath: string | undefined;
+    command: string;
+    args: string[];
+    env: Record<string, string>;
+    cwd: string | undefined;
+}
+
+/**
+ * Parses a `.env` file: `KEY=value` lines, optionally prefixed with `export`, with single or
+ * double quoted values and `#` comments.
+ */
+export function parseEnvFile(text: string): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const rawLine of text.split(/\r?\n/)) {
+        const match = /^\s*(?:export\s+)?([A-Za-z_][\w.]*)\s*=\s*(.*)$/.exec(rawLine);
+        if (!match) continue;
+        let value = match[2].trim();
+        const quote = value[0];
+        if ((quote === '"' || quote === "'") && value.indexOf(quote, 1) > 0) {
+            value = value.slice(1, value.indexOf(quote, 1));
+            if (quote === '"') value = value.replace(/\\n/g, '\n');
+        } else {
+            value = value.replace(/\s+#.*$/, '');
+        }
+        env[match[1]] = value;
+    }
+    return env;
+}
+
+// Expands variables, `${file}` included, and anchors relative paths at the workspace folder
+function resolveProfilePath(value: string, folder: vscode.WorkspaceFolder | undefined, activeFile: string | undefined): string {
+    const expanded = substituteVariables(value.replace(/\$\{file\}/g, activeFile ?? ''), folder);
+    return folder && !path.isAbsolute(expanded) ? path.join(folder.uri.fsPath, expanded) : expanded;
+}
+
+/**
+ * Resolves a profile for a folder.
+ * @param activeFile The file in the active editor, run when the profile names no file.
+ * @throws Error when the profile's env file cannot be read.
+ */
+export async function resolveRunProfile(
+    profile: RunProfile,
+    folder: vscode.WorkspaceFolder | undefined,
+    activeFile: string | undefined
+): Promise<ResolvedRunProfile> {
+    let fileEnv: Record<string, string> = {};
+    if (profile.envFile) {
+        const envFilePath = resolveProfilePath(profile.envFile, folder, activeFile);
+        try {
+            fileEnv = parseEnvFile(await fs.promises.readFile(envFilePath, 'utf8'));
+        } catch (error: any) {
+            throw new Error(`Cannot read env file ${envFilePath}: ${error.message || error}`);
+        }
+    }
+
+    const env: Record<string, string> = { ...fileEnv };
+    for (const [key, value] of Object.entries(profile.env ?? {})) {
+        env[key] = substituteVariables(String(value), folder);
+    }
+
+    return {
+        name: profile.name,
+        filePath: profile.file ? resolveProfilePath(profile.file, folder, activeFile) : activeFile,
+        command: profile.command || 'run',
+        args: (profile.args ?? []).map(arg => substituteVariables(String(arg), folder)),
+        env,
+        cwd: profile.cwd ? resolveProfilePath(profile.cwd, folder, activeFile) : folder?.uri.fsPath,
+    };
+}
+
+/**
+ * Keeps track of the active run profile of the workspace and shows it in the status bar,
+ * where clicking it offers the profiles configured for the active folder.
+ */
+export class RunProfileSelector {
+    private statusItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private context: vscode.ExtensionContext, private envManager: EnvManager) {
+        this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98);
+        this.statusItem.command = COMMANDS.SELECT_RUN_PROFILE;
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusItem()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(`jaclang-extension.${RUN_PROFILES_SETTING}`)) this.updateStatusItem();
+            })
+        );
+        this.updateStatusItem();
+    }
+
+    /** The profiles configured for the folder owning `resource`, or the active folder. */
+    getProfiles(resource?: vscode.Uri): RunProfile[] {
+        const folder = this.envManager.resolveFolder(resource);
+        const profiles = vscode.workspace.getConfiguration('jaclang-extension', folder?.uri).get<RunProfile[]>(RUN_PROFILES_SETTING, []);
+        return Array.isArray(profiles) ? profiles.filter(profile => profile && typeof profile.name === 'string') : [];
+    }
+
+    /** The selected profile, or undefined when the plain current-file run is selected. */
+    getActiveProfile(resource?: vscode.Uri): RunProfile | undefined {
+        const name = this.context.workspaceState.get<string>(ACTIVE_PROFILE_KEY);
+        return name ? this.getProfiles(resource).find(profile => profile.name === name) : undefined;
+    }
+
+    async pickProfile(): Promise<void> {
+        const profiles = this.getProfiles();
+        if (profiles.length === 0) {
+            const choice = await vscode.window.showInformationMessage(
+                'No Jac run profiles are configured for this workspace.',
+                'Open Settings'
+            );
+            if (choice === 'Open Settings') {
+                await vscode.commands.executeCommand('workbench.action.openWorkspaceSettings', `jaclang-extension.${RUN_PROFILES_SETTING}`);
+            }
+            return;
+        }
+
+        const active = this.getActiveProfile()?.name;
+        const items: Array<vscode.QuickPickItem & { profileName?: string }> = [
+            { label: 'Current File', description: active ? undefined : 'active', detail: 'jac run on the file in the active editor' },
+            ...profiles.map(profile => ({
+                label: profile.name,
+                profileName: profile.name,
+                description: profile.name === active ? 'active' : undefined,
+                detail: ['jac', profile.command || 'run', profile.file ?? '${file}', ...(profile.args ?? [])].join(' '),
+            })),
+        ];
+        const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Select the Jac run profile' });
+        if (!choice) return;
+
+        await this.context.workspaceState.update(ACTIVE_PROFILE_KEY, choice.profileName);
+        this.updateStatusItem();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.statusItem.dispose();
+    }
+
+    // Only shown once profiles exist, so workspaces without them keep a quiet status bar
+    private updateStatusItem(): void {
+        if (this.getProfiles().length === 0) {
+            this.statusItem.hide();
+            return;
+        }
+        const active = this.getActiveProfile();
+        this.statusItem.text = `$(play) ${active?.name ?? 'Current File'}`;
+        this.statusItem.tooltip = 'Jac run profile used by the Run button - Click to change';
+        this.statusItem.show();
+    }
+}
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { EnvManager } from '../environment/manager';
+import { captureProcess } from '../utils/process';
+import { COMMANDS } from '../constants';
+
+export const COMPILED_PYTHON_SCHEME = 'jac-python';
+
+/** A Jac line and the Python line its declaration compiles to, both 0-based. */
+export interface LineAnchor {
+    jacLine: number;
+    pythonLine: number;
+}
+
+// Archetypes and abilities that compile to a Python class or function of the same name
+const JAC_DECLARATION = /^\s*(?:(?:pub|priv|protect|async|static|override|abs)\s+)*(?:obj|class|node|edge|walker|enum|def|can|impl)\s+(?:[\w.]+\.)?(\w+)/;
+const PYTHON_DECLARATION = /^\s*(?:async\s+)?(?:def|class)\s+(\w+)/;
+
+function collectDeclarations(text: string, pattern: RegExp): Array<{ line: number; name: string }> {
+    const declarations: Array<{ line: number; name: string }> = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+        const match = pattern.exec(line);
+        if (match) declarations.push({ line: index, name: match[1] });
+    });
+    return declarations;
+}
+
+/**
+ * Pairs Jac declarations with the Python definitions generated for them, by name and order of
+ * appearance. The compiled output carries no source positions, so this is a best-effort map.
+ */
+export function buildLineAnchors(jacText: string, pythonText: string): LineAnchor[] {
+    const pythonByName = new Map<string, number[]>();
+    for (const { line, name } of collectDeclarations(pythonText, PYTHON_DECLARATION)) {
+        pythonByName.set(name, [...(pythonByName.get(name) ?? []), line]);
+    }
+
+    const anchors: LineAnchor[] = [];
+    for (const { line, name } of collectDeclarations(jacText, JAC_DECLARATION)) {
+        const pythonLine = pythonByName.get(name)?.shift();
+        if (pythonLine !== undefined) anchors.push({ jacLine: line, pythonLine });
+    }
+    return anchors;
+}
+
+/**
+ * The Python line corresponding to a Jac line: the nearest declaration above it, offset by the
+ * distance into its body but never past the next generated definition.
+ */
+export function toPythonLine(anchors: LineAnchor[], jacLine: number): number | undefined {
+    const anchor = anchors.filter(candidate => candidate.jacLine <= jacLine).pop();
+    if (!anchor) return undefined;
+    const nextPythonLine = anchors
+        .map(candidate => candidate.pythonLine)
+        .filter(line => line > anchor.pythonLine)
+        .reduce((nearest, line) => Math.min(nearest, line), Infinity);
+    return Math.min(anchor.pythonLine + (jacLine - anchor.jacLine), nextPythonLine - 1);
+}
+
+/** The read-only document showing the Python compiled from a Jac file. */
+export function toCompiledPythonUri(source: vscode.Uri): vscode.Uri {
+    return vscode.Uri.from({ scheme: COMPILED_PYTHON_SCHEME, path: `${source.path}.py`, query: source.toString() });
+}
+
+/**
+ * Serves the output of `jac tool ir py` for Jac files, recompiling whenever the file is saved.
+ * Failures are shown in the document as comments, so the view keeps tracking the file.
+ */
+export class CompiledPythonProvider implements vscode.TextDocumentContentProvider {
+    private readonly changed = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this.changed.event;
+    // Latest output per compiled document, used to sync the cursor
+    private outputs = new Map<string, string>();
+
+    constructor(private envManager: EnvManager) {}
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const source = vscode.Uri.parse(uri.query);
+        const { command, args } = this.envManager.getJacCommand(['tool', 'ir', 'py', source.fsPath], source);
+        let output: string;
+        try {
+            output = await captureProcess(command, args, { cwd: vscode.workspace.getWorkspaceFolder(source)?.uri.fsPath });
+        } catch (error: any) {
+            output = `# Could not compile ${source.fsPath}\n# ${String(error.message || error).split('\n').join('\n# ')}\n`;
+        }
+        this.outputs.set(uri.toString(), output);
+        return output;
+    }
+
+    getOutput(uri: vscode.Uri): string | undefined {
+        return this.outputs.get(uri.toString());
+    }
+
+    refresh(source: vscode.Uri): void {
+        const uri = toCompiledPythonUri(source);
+        if (this.outputs.has(uri.toString())) this.changed.fire(uri);
+    }
+
+    forget(uri: vscode.Uri): void {
+        this.outputs.delete(uri.toString());
+    }
+
+    dispose(): void {
+        this.changed.dispose();
+    }
+}
+
+// Scrolls the compiled view beside a Jac editor to the code generated for the cursor's line
+function syncCompiledView(provider: CompiledPythonProvider, editor: vscode.TextEditor): void {
+    const uri = toCompiledPythonUri(editor.document.uri);
+    const compiled = vscode.window.visibleTextEditors.find(candidate => candidate.document.uri.toString() === uri.toString());
+    const output = provider.getOutput(uri);
+    if (!compiled || output === undefined) return;
+
+    const line = toPythonLine(buildLineAnchors(editor.document.getText(), output), editor.selection.active.line);
+    if (line === undefined || line >= compiled.document.lineCount) return;
+    const range = compiled.document.lineAt(line).range;
+    compiled.selection = new vscode.Selection(range.start, range.start);
+    compiled.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+export function registerCompiledPythonView(context: vscode.ExtensionContext, envManager: EnvManager) {
+    const provider = new CompiledPythonProvider(envManager);
+    context.subscriptions.push(
+        provider,
+        vscode.workspace.registerTextDocumentContentProvider(COMPILED_PYTHON_SCHEME, provider),
+        vscode.workspace.onDidSaveTextDocument(document => {
+            if (document.languageId === 'jac') provider.refresh(document.uri);
+        }),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === COMPILED_PYTHON_SCHEME) provider.forget(document.uri);
+        }),
+        vscode.window.onDidChangeTextEditorSelection(event => {
+            if (event.textEditor.document.languageId === 'jac') syncCompiledView(provider, event.textEditor);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(COMMANDS.SHOW_COMPILED_PYTHON, async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'jac' || editor.document.uri.scheme !== 'file') {
+                vscode.window.showErrorMessage('Please open a saved Jac file to see its compiled Python.');
+                return;
+            }
+
+            try {
+                const document = await vscode.workspace.openTextDocument(toCompiledPythonUri(editor.document.uri));
+                await vscode.window.showTextDocument(document, {
+                    viewColumn: vscode.ViewColumn.Beside,
+                    preserveFocus: true,
+                    preview: false,
+                });
+                syncCompiledView(provider, editor);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to show compiled Python: ${error.message || error}`);
+            }
+        })
+    );
+}
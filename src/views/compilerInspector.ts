@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import { EnvManager } from '../environment/manager';
+import { captureProcess } from '../utils/process';
+import { COMMANDS } from '../constants';
+
+export const INSPECTOR_VIEW_ID = 'jacInspector';
+
+/** A source range as printed by the Jac toolchain, with 1-based lines and columns. */
+export interface IrRange {
+    startLine: number;
+    startCol: number;
+    endLine: number;
+    endCol: number;
+}
+
+/** A node of an AST or symbol table printout. */
+export interface IrNode {
+    label: string;
+    range?: IrRange;
+    children: IrNode[];
+}
+
+// The branch drawn before each node by jaclang's tree printer, ASCII or box drawing
+const BRANCH = /^(.*?)(?:\+--|`--|├──|└──)\s?(.*)$/;
+const RANGE = /(\d+):(\d+)\s*-\s*(\d+):(\d+)/;
+const LINE_AND_COLUMN = /line\s+(\d+),?\s+col(?:umn)?\s+(\d+)/i;
+
+function parseRange(label: string): IrRange | undefined {
+    const range = RANGE.exec(label);
+    if (range) {
+        const [startLine, startCol, endLine, endCol] = range.slice(1).map(Number);
+        return { startLine, startCol, endLine, endCol };
+    }
+    const position = LINE_AND_COLUMN.exec(label);
+    if (position) {
+        const [line, col] = position.slice(1).map(Number);
+        return { startLine: line, startCol: col, endLine: line, endCol: col };
+    }
+    return undefined;
+}
+
+/**
+ * Rebuilds the tree printed by `jac tool ir ast` or `jac tool ir sym`. A node's depth is the
+ * column its branch starts at; lines without a branch are top-level headers.
+ */
+export function parseIrTree(text: string): IrNode[] {
+    const roots: IrNode[] = [];
+    const stack: Array<{ depth: number; node: IrNode }> = [];
+
+    for (const line of text.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+        const branch = BRANCH.exec(line);
+        const depth = branch ? branch[1].length : -1;
+        const label = (branch ? branch[2] : line).trim();
+        const node: IrNode = { label, range: parseRange(label), children: [] };
+
+        while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+            stack.pop();
+        }
+        (stack.length > 0 ? stack[stack.length - 1].node.children : roots).push(node);
+        stack.push({ depth, node });
+    }
+    return roots;
+}
+
+/** An AST or symbol table node, or the section heading holding one of the printouts. */
+export class IrItem extends vscode.TreeItem {
+    constructor(readonly node: IrNode, readonly source: vscode.Uri, expanded = false) {
+        super(
+            node.label,
+            node.children.length === 0
+                ? vscode.TreeItemCollapsibleState.None
+                : expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        const { range } = node;
+        this.description = range ? `${range.startLine}:${range.startCol}-${range.endLine}:${range.endCol}` : undefined;
+        this.tooltip = node.label;
+    }
+}
+
+/**
+ * Shows the compiler's view of one Jac file: the AST from `jac tool ir ast` and the symbol
+ * table, with resolved types, from `jac tool ir sym`.
+ */
+export class CompilerInspectorProvider implements vscode.TreeDataProvider<IrItem> {
+    private readonly changed = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changed.event;
+    private sections: IrNode[] = [];
+    private source: vscode.Uri | undefined;
+
+    constructor(private envManager: EnvManager) {}
+
+    /** The file currently inspected. */
+    getSource(): vscode.Uri | undefined {
+        return this.source;
+    }
+
+    async inspect(source: vscode.Uri): Promise<void> {
+        this.source = source;
+        this.sections = await Promise.all([
+            this.runTool('ast', 'AST', source),
+            this.runTool('sym', 'Symbol Table', source),
+        ]);
+        this.changed.fire();
+    }
+
+    getTreeItem(item: IrItem): vscode.TreeItem {
+        return item;
+    }
+
+    getChildren(element?: IrItem): IrItem[] {
+        if (!this.source) return [];
+        if (element) return element.node.children.map(node => new IrItem(node, element.source));
+        return this.sections.map(section => new IrItem(section, this.source!, true));
+    }
+
+    dispose(): void {
+        this.changed.dispose();
+    }
+
+    // A failed run becomes a section holding the error, so the other printout is still shown
+    private async runTool(tool: string, title: string, source: vscode.Uri): Promise<IrNode> {
+        const { command, args } = this.envManager.getJacCommand(['tool', 'ir', tool, source.fsPath], source);
+        try {
+            const output = await captureProcess(command, args, { cwd: vscode.workspace.getWorkspaceFolder(source)?.uri.fsPath });
+            return { label: title, children: parseIrTree(output) };
+        } catch (error: any) {
+            return { label: title, children: [{ label: `Failed: ${error.message || error}`, children: [] }] };
+        }
+    }
+}
+
+// Marks the source range of the selected node in the inspected file, opening it if needed
+async function highlightNode(item: IrItem, decoration: vscode.TextEditorDecorationType): Promise<void> {
+    const { range } = item.node;
+    if (!range) return;
+
+    const start = new vscode.Position(Math.max(range.startLine - 1, 0), Math.max(range.startCol - 1, 0));
+    const end = new vscode.Position(Math.max(range.endLine - 1, 0), Math.max(range.endCol - 1, 0));
+    const selection = new vscode.Range(start, end.isBefore(start) ? start : end);
+
+    const editor = vscode.window.visibleTextEditors.find(candidate => candidate.document.uri.toString() === item.source.toString())
+        ?? await vscode.window.showTextDocument(item.source, { preserveFocus: true, preview: false });
+    editor.setDecorations(decoration, [selection]);
+    editor.revealRange(selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+/**
+ * Registers the "Compiler Inspector" view in the Jac activity bar container and the command
+ * that fills it for the active Jac file. The view follows saves of the inspected file.
+ */
+export function registerCompilerInspector(context: vscode.ExtensionContext, envManager: EnvManager) {
+    const provider = new CompilerInspectorProvider(envManager);
+    const treeView = vscode.window.createTreeView(INSPECTOR_VIEW_ID, { treeDataProvider: provider });
+    const decoration = vscode.window.createTextEditorDecorationType({
+        backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+    });
+
+    const inspect = async (source: vscode.Uri) => {
+        try {
+            await vscode.window.withProgress(
+                { location: { viewId: INSPECTOR_VIEW_ID }, title: 'Running the Jac compiler' },
+                () => provider.inspect(source)
+            );
+            treeView.description = vscode.workspace.asRelativePath(source);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to inspect ${source.fsPath}: ${error.message || error}`);
+        }
+    };
+
+    context.subscriptions.push(
+        provider,
+        treeView,
+        decoration,
+        treeView.onDidChangeSelection(event => {
+            const item = event.selection[0];
+            if (item) highlightNode(item, decoration).catch(error => console.warn('Failed to highlight AST node:', error));
+        }),
+        vscode.workspace.onDidSaveTextDocument(document => {
+            if (document.uri.toString() === provider.getSource()?.toString()) inspect(document.uri);
+        }),
+        vscode.commands.registerCommand(COMMANDS.INSPECT_COMPILER, async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'jac' || editor.document.uri.scheme !== 'file') {
+                vscode.window.showErrorMessage('Please open a saved Jac file to inspect.');
+                return;
+            }
+            await vscode.commands.executeCommand(`${INSPECTOR_VIEW_ID}.focus`);
+            await inspect(editor.document.uri);
+        }),
+        vscode.commands.registerCommand(COMMANDS.REFRESH_INSPECTOR, async () => {
+            const source = provider.getSource();
+            if (source) await inspect(source);
+        })
+    );
+}
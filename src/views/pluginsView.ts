@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import { EnvManager } from '../environment/manager';
+import { runPip } from '../utils/pip';
+import { getCommandTemplate } from '../utils/commandWrapper';
+import { getLspManager } from '../extension';
+import { COMMANDS, JAC_PLUGINS } from '../constants';
+
+export const PLUGINS_VIEW_ID = 'jacPlugins';
+
+export type PluginAction = 'install' | 'upgrade' | 'uninstall';
+
+/** The pip arguments for a plugin action; uninstalling does not ask for confirmation. */
+export function buildPipArgs(action: PluginAction, packageName: string): string[] {
+    return {
+        install: ['install', packageName],
+        upgrade: ['install', '--upgrade', packageName],
+        uninstall: ['uninstall', '-y', packageName],
+    }[action];
+}
+
+/** A Jac plugin package, installed or not, in the active environment. */
+export class PluginItem extends vscode.TreeItem {
+    constructor(readonly packageName: string, readonly version: string | undefined) {
+        super(packageName, vscode.TreeItemCollapsibleState.None);
+        this.description = version ?? 'not installed';
+        this.tooltip = version ? `${packageName} ${version}` : `${packageName} is not installed in this environment`;
+        this.contextValue = version ? 'jacPlugin.installed' : 'jacPlugin.available';
+        this.iconPath = new vscode.ThemeIcon(version ? 'package' : 'circle-outline');
+    }
+}
+
+/**
+ * Lists the known Jac plugins, plus any other package registering a `jac` entry point, for
+ * the environment `EnvManager` resolves for the active document.
+ */
+export class PluginTreeProvider implements vscode.TreeDataProvider<PluginItem> {
+    private readonly changed = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changed.event;
+
+    constructor(private envManager: EnvManager) {}
+
+    refresh(): void {
+        this.changed.fire();
+    }
+
+    getTreeItem(item: PluginItem): vscode.TreeItem {
+        return item;
+    }
+
+    async getChildren(element?: PluginItem): Promise<PluginItem[]> {
+        if (element || !this.envManager.hasSelection()) return [];
+
+        // Re-probe so the list reflects installs made outside the extension too
+        const info = await this.envManager.getEnvironmentInfo(this.envManager.getJacPath(), true);
+        if (!info) return [];
+
+        const names = Array.from(new Set([...JAC_PLUGINS, ...Object.keys(info.plugins)]));
+        return names.map(name => new PluginItem(name, info.plugins[name]));
+    }
+
+    dispose(): void {
+        this.changed.dispose();
+    }
+}
+
+let pluginsChannel: vscode.OutputChannel | undefined;
+
+function getPluginsChannel(): vscode.OutputChannel {
+    if (!pluginsChannel) {
+        pluginsChannel = vscode.window.createOutputChannel('Jac Plugins');
+    }
+    return pluginsChannel;
+}
+
+/**
+ * Registers the "Plugins" view in the Jac activity bar container along with its
+ * install, upgrade, uninstall and refresh commands.
+ */
+export function registerPluginsView(context: vscode.ExtensionContext, envManager: EnvManager) {
+    const provider = new PluginTreeProvider(envManager);
+
+    context.subscriptions.push(
+        provider,
+        vscode.window.registerTreeDataProvider(PLUGINS_VIEW_ID, provider),
+        envManager.onDidChangeEnvironment(() => provider.refresh()),
+        vscode.commands.registerCommand(COMMANDS.REFRESH_PLUGINS, () => provider.refresh()),
+        vscode.commands.registerCommand(COMMANDS.INSTALL_PLUGIN, async (item?: PluginItem) => {
+            const packageName = item?.packageName ?? await vscode.window.showInputBox({
+                prompt: 'Name of the Jac plugin package to install',
+                placeHolder: 'jac-streamlit',
+            });
+            if (packageName?.trim()) {
+                await runPluginAction(envManager, provider, 'install', packageName.trim());
+            }
+        }),
+        vscode.commands.registerCommand(COMMANDS.UPGRADE_PLUGIN, async (item: PluginItem) => {
+            await runPluginAction(envManager, provider, 'upgrade', item.packageName);
+        }),
+        vscode.commands.registerCommand(COMMANDS.UNINSTALL_PLUGIN, async (item: PluginItem) => {
+            const confirmed = await vscode.window.showWarningMessage(
+                `Uninstall ${item.packageName} from the current Jac environment?`,
+                { modal: true },
+                'Uninstall'
+            );
+            if (confirmed === 'Uninstall') {
+                await runPluginAction(envManager, provider, 'uninstall', item.packageName);
+            }
+        })
+    );
+}
+
+/**
+ * Runs pip for a plugin in the active environment, then refreshes the view and
+ * offers to restart the language server so it picks up the change.
+ */
+async function runPluginAction(
+    envManager: EnvManager,
+    provider: PluginTreeProvider,
+    action: PluginAction,
+    packageName: string
+): Promise<void> {
+    const info = await envManager.getEnvironmentInfo();
+    const pythonPath = info?.pythonPath ?? envManager.getPythonPath();
+    const pipArgs = buildPipArgs(action, packageName);
+    // pip runs on the host, so a container or remote command template cannot apply here
+    if (getCommandTemplate(envManager.resolveFolder())) {
+        vscode.window.showWarningMessage(`pip runs in the host environment ${pythonPath}; the jaclang-extension.commandTemplate setting is not applied.`);
+    }
+
+    const outputChannel = getPluginsChannel();
+    outputChannel.show(true);
+    try {
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Running pip ${action} ${packageName}` },
+            () => runPip(pythonPath, pipArgs, outputChannel)
+        );
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to ${action} ${packageName}: ${error.message || error}`);
+        return;
+    } finally {
+        provider.refresh();
+    }
+
+    await envManager.getEnvironmentInfo(envManager.getJacPath(), true);
+    envManager.updateStatusBar();
+
+    const lspManager = getLspManager();
+    if (!lspManager) return;
+    const done = { install: 'installed', upgrade: 'upgraded', uninstall: 'uninstalled' }[action];
+    const choice = await vscode.window.showInformationMessage(
+        `${packageName} ${done}. Restart the Jac Language Server to load the change?`,
+        'Restart Language Server'
+    );
+    if (choice === 'Restart Language Server') {
+        try {
+            await lspManager.restart();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to restart Jac Language Server: ${error.message || error}`);
+        }
+    }
+}
@@ -0,0 +1,402 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as net from 'net';
+import * as path from 'path';
+import { EnvManager } from '../environment/manager';
+import { isUnsavedBufferCopy } from '../utils/bufferRunner';
+import { COMMANDS } from '../constants';
+
+export const SERVE_SESSIONS_VIEW_ID = 'jacServeSessions';
+export const SERVE_PORT_SETTING = 'serve.port';
+export const SERVE_RESTART_ON_CHANGE_SETTING = 'serve.restartOnChange';
+
+// Changes arriving within this window restart a session once
+const RESTART_DEBOUNCE_MS = 500;
+// How often the uptimes in the view are refreshed
+const UPTIME_REFRESH_MS = 30 * 1000;
+// Generated and installed code, which changes without the project's sources changing
+const IGNORED_FOLDERS = /[\\/](?:node_modules|\.venv|venv|__jac_gen__|\.jac|site-packages|__pycache__)[\\/]/;
+
+type SessionState = 'starting' | 'running' | 'stopped' | 'exited';
+
+/** Whether server output reports that its port is taken. */
+export function isPortInUseError(text: string): boolean {
+    return /address already in use|EADDRINUSE|\[Errno (?:48|98|10048)\]|port \d+ is (?:already )?in use/i.test(text);
+}
+
+/** The port a server reports listening on, e.g. `Uvicorn running on http://0.0.0.0:8000`. */
+export function parseListeningPort(text: string): number | undefined {
+    const match = /(?:running|listening|serving)\s+(?:on|at)\s+https?:\/\/[^\s:/]+:(\d+)/i.exec(text);
+    return match ? Number(match[1]) : undefined;
+}
+
+/** A short uptime such as `45s`, `12m` or `3h 5m`. */
+export function formatUptime(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function isPortFree(port: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const server = net.createServer();
+        server.once('error', () => resolve(false));
+        server.once('listening', () => server.close(() => resolve(true)));
+        server.listen(port);
+    });
+}
+
+/**
+ * The first port from `start` that nothing listens on and no other session uses.
+ * @throws Error when none of the next 100 ports is free.
+ */
+export async function findFreePort(start: number, taken: Set<number> = new Set()): Promise<number> {
+    for (let port = start; port < start + 100 && port <= 65535; port++) {
+        if (!taken.has(port) && await isPortFree(port)) return port;
+    }
+    throw new Error(`No free port found from ${start}`);
+}
+
+/**
+ * Whether a change to a file may change what a serve session serves. Runs of unsaved buffers
+ * write temporary copies beside their files, which are not part of the project.
+ */
+export function isWatchedSource(filePath: string): boolean {
+    return !IGNORED_FOLDERS.test(filePath) && !isUnsavedBufferCopy(filePath);
+}
+
+/**
+ * One `jac serve` child process of a file, with its own log channel. Restarting reuses the
+ * session, so its place in the view and its logs survive.
+ */
+export class ServeSession {
+    private child: cp.ChildProcess | undefined;
+    private outputChannel: vscode.OutputChannel;
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private restartTimer: NodeJS.Timeout | undefined;
+    // Set while we stop the process ourselves, so its exit is not reported
+    private stopping = false;
+    private portConflictReported = false;
+    state: SessionState = 'stopped';
+    startedAt: number | undefined;
+    exitCode: number | null = null;
+
+    constructor(
+        readonly id: number,
+        readonly filePath: string,
+        public port: number,
+        private envManager: EnvManager,
+        private onChange: () => void,
+        private onPortInUse: (session: ServeSession) => void
+    ) {
+        this.outputChannel = vscode.window.createOutputChannel(`Jac Serve: ${path.basename(filePath)}`);
+    }
+
+    get label(): string {
+        return path.basename(this.filePath);
+    }
+
+    get url(): string {
+        return `http://localhost:${this.port}`;
+    }
+
+    isActive(): boolean {
+        return this.state === 'starting' || this.state === 'running';
+    }
+
+    start(): void {
+        if (this.child) return;
+        const uri = vscode.Uri.file(this.filePath);
+        const { command, args } = this.envManager.getJacCommand(['serve', this.filePath, '--port', String(this.port)], uri);
+        const cwd = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath ?? path.dirname(this.filePath);
+
+        this.outputChannel.appendLine(`> ${command} ${args.join(' ')}`);
+        this.portConflictReported = false;
+        this.exitCode = null;
+        this.startedAt = undefined;
+        this.setState('starting');
+
+        const child = cp.spawn(command, args, { cwd, shell: false });
+        this.child = child;
+        const handleOutput = (data: Buffer) => {
+            const text = data.toString();
+            this.outputChannel.append(text);
+            // Tracebacks and bind errors also arrive as output, so only a listening line means it is up
+            const port = parseListeningPort(text);
+            if (port !== undefined) {
+                this.port = port;
+                if (this.state === 'starting') this.startedAt = Date.now();
+                this.setState('running');
+            }
+            if (!this.portConflictReported && isPortInUseError(text)) {
+                this.portConflictReported = true;
+                this.onPortInUse(this);
+            }
+        };
+        child.stdout?.on('data', handleOutput);
+        child.stderr?.on('data', handleOutput);
+        child.on('error', error => this.outputChannel.appendLine(`Failed to start jac serve: ${error.message}`));
+        child.on('close', code => {
+            if (this.child !== child) return;
+            this.child = undefined;
+            this.exitCode = code;
+            this.outputChannel.appendLine(`[jac serve exited with code ${code ?? 'unknown'}]`);
+            this.setState(this.stopping ? 'stopped' : 'exited');
+        });
+        this.updateWatcher();
+    }
+
+    async stop(): Promise<void> {
+        this.cancelRestart();
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        const child = this.child;
+        if (!child) {
+            this.setState('stopped');
+            return;
+        }
+
+        this.stopping = true;
+        await new Promise<void>(resolve => {
+            // Give the server a moment to shut down cleanly before forcing it
+            const timeout = setTimeout(() => child.kill('SIGKILL'), 3000);
+            child.once('close', () => {
+                clearTimeout(timeout);
+                resolve();
+            });
+            child.kill();
+        });
+        this.stopping = false;
+    }
+
+    async restart(port = this.port): Promise<void> {
+        await this.stop();
+        this.port = port;
+        this.outputChannel.appendLine('');
+        this.start();
+    }
+
+    showLogs(): void {
+        this.outputChannel.show(true);
+    }
+
+    /** Starts or stops following changes, as the restart-on-change setting says. */
+    updateWatcher(): void {
+        const enabled = vscode.workspace.getConfiguration('jaclang-extension', vscode.Uri.file(this.filePath))
+            .get<boolean>(SERVE_RESTART_ON_CHANGE_SETTING, false);
+        if (!enabled || !this.isActive()) {
+            this.watcher?.dispose();
+            this.watcher = undefined;
+            return;
+        }
+        if (this.watcher) return;
+
+        // Imports may come from anywhere in the workspace folder, and from Python modules too
+        const base = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(this.filePath)) ?? path.dirname(this.filePath);
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(base, '**/*.{jac,py}'));
+        const scheduleRestart = (uri: vscode.Uri) => {
+            if (!isWatchedSource(uri.fsPath)) return;
+            this.cancelRestart();
+            this.restartTimer = setTimeout(() => {
+                this.restartTimer = undefined;
+                this.outputChannel.appendLine(`[${vscode.workspace.asRelativePath(uri)} changed, restarting]`);
+                this.restart().catch(error => console.warn('Failed to restart jac serve:', error));
+            }, RESTART_DEBOUNCE_MS);
+        };
+        this.watcher.onDidChange(scheduleRestart);
+        this.watcher.onDidCreate(scheduleRestart);
+        this.watcher.onDidDelete(scheduleRestart);
+    }
+
+    async dispose(): Promise<void> {
+        await this.stop();
+        this.outputChannel.dispose();
+    }
+
+    private cancelRestart(): void {
+        if (this.restartTimer) {
+            clearTimeout(this.restartTimer);
+            this.restartTimer = undefined;
+        }
+    }
+
+    private setState(state: SessionState): void {
+        this.state = state;
+        this.onChange();
+    }
+}
+
+/** A serve session in the view; its context value selects the inline actions offered. */
+export class ServeSessionItem extends vscode.TreeItem {
+    constructor(readonly session: ServeSession, now = Date.now()) {
+        super(session.label, vscode.TreeItemCollapsibleState.None);
+        const uptime = session.state === 'running' && session.startedAt ? ` · up ${formatUptime(now - session.startedAt)}` : '';
+        const exited = session.state === 'exited' ? ` · exited (${session.exitCode ?? 'unknown'})` : '';
+        this.description = `:${session.port} · ${session.state}${uptime}${exited}`;
+        this.tooltip = `${session.filePath}\n${session.url}`;
+        this.contextValue = session.isActive() ? 'jacServe.running' : 'jacServe.stopped';
+        this.iconPath = new vscode.ThemeIcon(
+            session.state === 'running' ? 'radio-tower'
+                : session.state === 'starting' ? 'loading~spin'
+                    : session.state === 'exited' ? 'error' : 'debug-stop'
+        );
+        this.command = { command: COMMANDS.SERVE_SHOW_LOGS, title: 'Show Logs', arguments: [this] };
+    }
+}
+
+/**
+ * Tracks the `jac serve` sessions started from the editor and lists them in the
+ * "Serve Sessions" view.
+ */
+export class ServeSessionManager implements vscode.TreeDataProvider<ServeSessionItem> {
+    private readonly changed = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changed.event;
+    private sessions: ServeSession[] = [];
+    private nextId = 1;
+    private uptimeTimer: NodeJS.Timeout | undefined;
+
+    constructor(private envManager: EnvManager) {}
+
+    getTreeItem(item: ServeSessionItem): vscode.TreeItem {
+        return item;
+    }
+
+    getChildren(element?: ServeSessionItem): ServeSessionItem[] {
+        if (element) return [];
+        const now = Date.now();
+        return this.sessions.map(session => new ServeSessionItem(session, now));
+    }
+
+    /** Serves a file, restarting its existing session instead of starting a second one. */
+    async serve(filePath: string): Promise<void> {
+        const existing = this.sessions.find(session => session.filePath === filePath);
+        if (existing) {
+            await existing.restart();
+            existing.showLogs();
+            return;
+        }
+
+        const configured = vscode.workspace.getConfiguration('jaclang-extension', vscode.Uri.file(filePath))
+            .get<number>(SERVE_PORT_SETTING, 8000);
+        const taken = new Set(this.sessions.filter(session => session.isActive()).map(session => session.port));
+        const port = await findFreePort(configured, taken);
+
+        const session = new ServeSession(
+            this.nextId++, filePath, port, this.envManager,
+            () => this.refresh(),
+            conflicted => this.handlePortInUse(conflicted)
+        );
+        this.sessions.push(session);
+        session.start();
+        session.showLogs();
+    }
+
+    async remove(session: ServeSession): Promise<void> {
+        this.sessions = this.sessions.filter(candidate => candidate !== session);
+        await session.dispose();
+        this.refresh();
+    }
+
+    /** Applies an edit of the restart-on-change setting to running sessions. */
+    updateWatchers(): void {
+        this.sessions.forEach(session => session.updateWatcher());
+    }
+
+    async dispose(): Promise<void> {
+        if (this.uptimeTimer) clearInterval(this.uptimeTimer);
+        await Promise.all(this.sessions.map(session => session.dispose()));
+        this.sessions = [];
+        this.changed.dispose();
+    }
+
+    private refresh(): void {
+        this.changed.fire();
+        // Keep uptimes current only while something is running
+        const active = this.sessions.some(session => session.isActive());
+        if (active && !this.uptimeTimer) {
+            this.uptimeTimer = setInterval(() => this.changed.fire(), UPTIME_REFRESH_MS);
+        } else if (!active && this.uptimeTimer) {
+            clearInterval(this.uptimeTimer);
+            this.uptimeTimer = undefined;
+        }
+    }
+
+    private async handlePortInUse(session: ServeSession): Promise<void> {
+        const taken = new Set(this.sessions.filter(other => other !== session && other.isActive()).map(other => other.port));
+        let suggested: number | undefined;
+        try {
+            suggested = await findFreePort(session.port + 1, taken);
+        } catch {
+            suggested = undefined;
+        }
+
+        const useSuggested = suggested ? `Use Port ${suggested}` : undefined;
+        const choice = await vscode.window.showWarningMessage(
+            `Port ${session.port} is already in use, so ${session.label} could not be served.`,
+            ...(useSuggested ? [useSuggested] : []),
+            'Choose Port...'
+        );
+        let port: number | undefined;
+        if (choice && choice === useSuggested) {
+            port = suggested;
+        } else if (choice === 'Choose Port...') {
+            const value = await vscode.window.showInputBox({
+                prompt: `Port to serve ${session.label} on`,
+                value: String(suggested ?? session.port + 1),
+                validateInput: input => /^\d+$/.test(input) && Number(input) > 0 && Number(input) <= 65535 ? undefined : 'Enter a port between 1 and 65535',
+            });
+            port = value ? Number(value) : undefined;
+        }
+        if (port) await session.restart(port);
+    }
+}
+
+/**
+ * Registers the "Serve Sessions" view in the Jac activity bar container and the commands
+ * controlling its sessions. `Jac: Serve Current File` starts sessions here.
+ */
+export function registerServeSessionsView(context: vscode.ExtensionContext, envManager: EnvManager) {
+    const manager = new ServeSessionManager(envManager);
+
+    context.subscriptions.push(
+        { dispose: () => manager.dispose() },
+        vscode.window.registerTreeDataProvider(SERVE_SESSIONS_VIEW_ID, manager),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(`jaclang-extension.${SERVE_RESTART_ON_CHANGE_SETTING}`)) manager.updateWatchers();
+        }),
+        vscode.commands.registerCommand(COMMANDS.SERVE_FILE, async () => {
+            const document = vscode.window.activeTextEditor?.document;
+            // Outside a Jac file, fall back to the project's jac.toml entry point
+            const filePath = document?.languageId === 'jac' && !document.isUntitled
+                ? document.uri.fsPath
+                : envManager.getProjectConfig(document?.uri)?.entryPoint;
+            if (!filePath) {
+                vscode.window.showErrorMessage('Please open a saved Jac file to serve.');
+                return;
+            }
+            try {
+                if (document?.uri.fsPath === filePath && document.isDirty) await document.save();
+                await manager.serve(filePath);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to serve ${path.basename(filePath)}: ${error.message || error}`);
+            }
+        }),
+        vscode.commands.registerCommand(COMMANDS.SERVE_STOP, async (item: ServeSessionItem) => {
+            await item.session.stop();
+        }),
+        vscode.commands.registerCommand(COMMANDS.SERVE_RESTART, async (item: ServeSessionItem) => {
+            await item.session.restart();
+        }),
+        vscode.commands.registerCommand(COMMANDS.SERVE_REMOVE, async (item: ServeSessionItem) => {
+            await manager.remove(item.session);
+        }),
+        vscode.commands.registerCommand(COMMANDS.SERVE_OPEN_BROWSER, async (item: ServeSessionItem) => {
+            await vscode.env.openExternal(vscode.Uri.parse(item.session.url));
+        }),
+        vscode.commands.registerCommand(COMMANDS.SERVE_SHOW_LOGS, (item: ServeSessionItem) => {
+            item.session.showLogs();
+        })
+    );
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { getTraceDirectory, readTrace, trimTrace, TraceEntry } from '../lsp/protocolRecorder';
+
+// Keeps the webview responsive for long recordings
+const MAX_VIEWER_ENTRIES = 10000;
+const MAX_VIEWER_PAYLOAD_CHARS = 5000;
+
+let tracePanel: vscode.WebviewPanel | undefined;
+
+/**
+ * Opens the protocol recording in a webview timeline that can be filtered by
+ * method and sorted by the slowest requests.
+ */
+export function showProtocolTrace(context: vscode.ExtensionContext) {
+    const entries = readTrace(getTraceDirectory(context));
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage(
+            'No Jac protocol recording found. Enable jaclang-extension.recordProtocol in developer mode and restart the language server.'
+        );
+        return;
+    }
+
+    if (tracePanel) {
+        tracePanel.reveal();
+    } else {
+        tracePanel = vscode.window.createWebviewPanel(
+            'jacProtocolTrace',
+            'Jac Protocol Trace',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        tracePanel.onDidDispose(() => { tracePanel = undefined; });
+    }
+
+    const shown = entries.slice(-MAX_VIEWER_ENTRIES).map(entry => ({
+        ...entry,
+        message: entry.message === undefined ? undefined : truncatePayload(entry.message),
+    }));
+    tracePanel.webview.html = getTraceViewerHtml(shown);
+}
+
+/**
+ * Saves the latest session of each server, with large payloads shortened, to a file chosen by the user.
+ */
+export async function exportProtocolTrace(context: vscode.ExtensionContext) {
+    const entries = trimTrace(readTrace(getTraceDirectory(context)));
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage('No Jac protocol recording to export.');
+        return;
+    }
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(`jac-lsp-trace-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`),
+        filters: { 'JSON Lines': ['jsonl'] },
+        saveLabel: 'Export Trace'
+    });
+    if (!target) return;
+
+    try {
+        fs.writeFileSync(target.fsPath, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+        vscode.window.showInformationMessage(`Exported ${entries.length} protocol messages to ${target.fsPath}`);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to export protocol trace: ${error.message || error}`);
+    }
+}
+
+function truncatePayload(message: unknown): unknown {
+    const payload = JSON.stringify(message, null, 2);
+    return payload.length > MAX_VIEWER_PAYLOAD_CHARS
+        ? `${payload.slice(0, MAX_VIEWER_PAYLOAD_CHARS)}\n… truncated`
+        : message;
+}
+
+function getNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    return Array.from({ length: 32 }, () => chars.charAt(Math.floor(Math.random() * chars.length))).join('');
+}
+
+function getTraceViewerHtml(entries: TraceEntry[]): string {
+    const nonce = getNonce();
+    // Escape '<' so payloads cannot close the script element
+    const data = JSON.stringify(entries).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 12px; }
+    .toolbar { display: flex; gap: 12px; align-items: center; margin: 12px 0; }
+    input[type=text] { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 6px; width: 260px; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 2px 8px; white-space: nowrap; }
+    th { position: sticky; top: 0; background: var(--vscode-editor-background); }
+    tr.row { cursor: pointer; }
+    tr.row:hover, tr.selected { background: var(--vscode-list-hoverBackground); }
+    tr.session td { font-weight: bold; border-top: 1px solid var(--vscode-panel-border); }
+    .bar { height: 8px; background: var(--vscode-charts-orange); display: inline-block; vertical-align: middle; margin-right: 6px; }
+    pre { background: var(--vscode-textCodeBlock-background); padding: 8px; white-space: pre-wrap; max-height: 40vh; overflow: auto; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <input id="filter" type="text" placeholder="Filter by method, e.g. textDocument/hover">
+    <label><input id="slowest" type="checkbox"> Sort by slowest request</label>
+    <span id="count"></span>
+</div>
+<table>
+    <thead><tr><th>Time</th><th>Dir</th><th>Kind</th><th>Method</th><th>Id</th><th>Latency</th></tr></thead>
+    <tbody id="rows"></tbody>
+</table>
+<pre id="details">Select a message to see its payload.</pre>
+<script nonce="${nonce}">
+    const entries = ${data};
+    const start = entries.length ? entries[0].ts : 0;
+    const maxLatency = Math.max(1, ...entries.map(e => e.latencyMs || 0));
+    const rows = document.getElementById('rows');
+    const filter = document.getElementById('filter');
+    const slowest = document.getElementById('slowest');
+    const details = document.getElementById('details');
+
+    function cell(text) {
+        const td = document.createElement('td');
+        td.textContent = text;
+        return td;
+    }
+
+    function render() {
+        const query = filter.value.trim().toLowerCase();
+        let shown = entries.filter(e => !query || (e.method || '').toLowerCase().includes(query));
+        if (slowest.checked) {
+            shown = shown.filter(e => e.latencyMs !== undefined).sort((a, b) => b.latencyMs - a.latencyMs);
+        }
+        rows.replaceChildren();
+        for (const entry of shown) {
+            const tr = document.createElement('tr');
+            tr.className = entry.kind === 'session' ? 'session' : 'row';
+            if (entry.kind === 'session') {
+                const label = entry.server ? ' [' + entry.server + ']' : '';
+                const td = cell('Server started' + label + ': ' + (entry.command || '') + ' at ' + new Date(entry.ts).toLocaleString());
+                td.colSpan = 6;
+                tr.appendChild(td);
+            } else {
+                tr.appendChild(cell('+' + (entry.ts - start) + ' ms'));
+                const server = entry.server ? ' ' + entry.server : ' server';
+                tr.appendChild(cell(entry.direction === 'send' ? '→' + server : '←' + server));
+                tr.appendChild(cell(entry.kind));
+                tr.appendChild(cell(entry.method || ''));
+                tr.appendChild(cell(entry.id === undefined ? '' : String(entry.id)));
+                const latency = cell('');
+                if (entry.latencyMs !== undefined) {
+                    const bar = document.createElement('span');
+                    bar.className = 'bar';
+                    bar.style.width = Math.max(2, Math.round(120 * entry.latencyMs / maxLatency)) + 'px';
+                    latency.appendChild(bar);
+                    latency.appendChild(document.createTextNode(entry.latencyMs + ' ms'));
+                }
+                tr.appendChild(latency);
+                tr.addEventListener('click', () => {
+                    document.querySelectorAll('tr.selected').forEach(row => row.classList.remove('selected'));
+                    tr.classList.add('selected');
+                    details.textContent = typeof entry.message === 'string'
+                        ? entry.message
+                        : JSON.stringify(entry.message, null, 2);
+                });
+            }
+            rows.appendChild(tr);
+        }
+        document.getElementById('count').textContent = shown.length + ' of ' + entries.length + ' messages';
+    }
+
+    filter.addEventListener('input', render);
+    slowest.addEventListener('change', render);
+    render();
+</script>
+</body>
+</html>`;
+}